@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useCallback, useReducer } from 'react';
-import { AiModel, JobResult, UiState, JobStatus, AnalysisOutput } from './types';
+import { AiModel, JobResult, UiState, JobStatus, AnalysisOutput, TARGET_LANGUAGE } from './types';
 import { UrlInputForm, InputMode } from './components/UrlInputForm';
 import { ResultDisplay } from './components/ResultDisplay';
 import { ProgressIndicator } from './components/ProgressIndicator';
@@ -109,14 +109,14 @@ const App: React.FC = () => {
       let fullTranslation: string;
       let finalAnalysisResult: AnalysisOutput;
 
-      if (language === 'ko') {
+      if (language === TARGET_LANGUAGE) {
         fullTranslation = content; 
         finalAnalysisResult = rawAnalysisResult;
       } else {
         dispatch({ type: 'JOB_PROGRESS', payload: { status: JobStatus.TRANSLATING } });
         const [translatedAnalysis, translatedContent] = await Promise.all([
-          translateAnalysis(rawAnalysisResult, model),
-          performTranslation(content, model)
+          translateAnalysis(rawAnalysisResult, model, TARGET_LANGUAGE),
+          performTranslation(content, model, TARGET_LANGUAGE)
         ]);
         finalAnalysisResult = translatedAnalysis;
         fullTranslation = translatedContent;
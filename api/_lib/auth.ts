@@ -0,0 +1,72 @@
+import crypto from 'node:crypto';
+import type { VercelRequest } from '@vercel/node';
+import { ApiError } from './errors';
+import type { ClientIdentity } from './rateLimit';
+
+// 서버에 설정된 접근 토큰 하나. id는 한도 집계와 로그에 토큰 대신 사용합니다.
+interface AccessToken {
+    id: string;
+    hash: Buffer;
+}
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+/**
+ * API_TOKENS: 쉼표로 구분한 `이름:토큰` 목록. 이름을 생략하면 토큰 해시 앞부분을 이름으로 씁니다.
+ * 비어 있으면 인증 없이 누구나 호출할 수 있으므로, 공개 배포에서는 반드시 설정해야 합니다.
+ */
+export const parseAccessTokens = (value = ''): AccessToken[] =>
+    value
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const separator = entry.indexOf(':');
+            const token = separator === -1 ? entry : entry.slice(separator + 1);
+            const hash = sha256(token);
+            return { id: separator === -1 ? hash.toString('hex').slice(0, 8) : entry.slice(0, separator), hash };
+        });
+
+const ACCESS_TOKENS = parseAccessTokens(process.env.API_TOKENS);
+if (ACCESS_TOKENS.length === 0) {
+    console.warn('API_TOKENS is not set; /api endpoints accept requests without authentication.');
+}
+
+// Vercel처럼 앞단 프록시가 X-Forwarded-For를 덮어쓰는 환경에서만 그 값을 믿습니다.
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true' || !!process.env.VERCEL;
+
+const clientIp = (req: VercelRequest): string => {
+    if (TRUST_PROXY) {
+        const forwarded = req.headers['x-forwarded-for'];
+        const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+        if (first) return first;
+    }
+    return req.socket?.remoteAddress ?? 'unknown';
+};
+
+const bearerToken = (req: VercelRequest): string | undefined => {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    return match?.[1].trim();
+};
+
+// Authorization: Bearer 토큰을 확인합니다. 토큰이 없거나 틀리면 UNAUTHORIZED ApiError를 던집니다.
+export const authenticate = (req: VercelRequest): ClientIdentity => {
+    const ip = clientIp(req);
+    if (ACCESS_TOKENS.length === 0) return { ip };
+
+    const token = bearerToken(req);
+    if (!token) {
+        throw new ApiError('UNAUTHORIZED', '접근 토큰이 필요합니다.');
+    }
+    // 해시끼리 비교해 길이가 달라도 일정한 시간에 비교합니다.
+    const hash = sha256(token);
+    const match = ACCESS_TOKENS.find(candidate => crypto.timingSafeEqual(candidate.hash, hash));
+    if (!match) {
+        throw new ApiError('UNAUTHORIZED', '접근 토큰이 올바르지 않습니다.');
+    }
+    return { tokenId: match.id, ip };
+};
+
+// 클라이언트별로 나누는 데이터(번역 메모리, 작업)의 소유자 키. 토큰을 쓰면 토큰, 쓰지 않는 서버에서는 IP로 구분합니다.
+export const clientKeyOf = (client: ClientIdentity): string =>
+    client.tokenId !== undefined ? `token:${client.tokenId}` : `ip:${client.ip}`;
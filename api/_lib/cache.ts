@@ -0,0 +1,142 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { ProxyAction } from '../../src/types';
+
+export interface CacheEntry {
+    value: unknown;
+    expiresAt: number; // epoch ms
+}
+
+// 캐시 저장소 인터페이스. 메모리 LRU와 파일 저장소를 기본 제공하며, 다른 저장소도 같은 형태로 붙일 수 있습니다.
+export interface CacheStore {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+export const createMemoryCacheStore = (maxEntries = 500): CacheStore => {
+    // Map은 삽입 순서를 유지하므로, 조회 시 다시 넣어 가장 최근 항목으로 만듭니다.
+    const entries = new Map<string, CacheEntry>();
+    return {
+        async get(key) {
+            const entry = entries.get(key);
+            if (entry) {
+                entries.delete(key);
+                entries.set(key, entry);
+            }
+            return entry;
+        },
+        async set(key, entry) {
+            entries.delete(key);
+            entries.set(key, entry);
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+        async delete(key) {
+            entries.delete(key);
+        },
+    };
+};
+
+export const createFileCacheStore = (directory: string): CacheStore => {
+    const fileFor = (key: string) => path.join(directory, `${key}.json`);
+    return {
+        async get(key) {
+            try {
+                return JSON.parse(await fs.readFile(fileFor(key), 'utf-8')) as CacheEntry;
+            } catch {
+                return undefined;
+            }
+        },
+        async set(key, entry) {
+            await fs.mkdir(directory, { recursive: true });
+            // 임시 파일에 쓴 뒤 이름을 바꿔, 동시에 읽는 요청이 반쯤 쓰인 파일을 보지 않게 합니다.
+            const tempFile = `${fileFor(key)}.${process.pid}.tmp`;
+            await fs.writeFile(tempFile, JSON.stringify(entry), 'utf-8');
+            await fs.rename(tempFile, fileFor(key));
+        },
+        async delete(key) {
+            await fs.rm(fileFor(key), { force: true });
+        },
+    };
+};
+
+// action별 TTL(초). 페이지 원문은 자주 바뀌므로 짧게, 모델 결과는 길게 유지합니다.
+const DEFAULT_TTL_SECONDS: Record<ProxyAction, number> = {
+    fetchUrl: 10 * 60,
+    detectLanguage: 7 * 24 * 60 * 60,
+    performAnalysis: 7 * 24 * 60 * 60,
+    translateAnalysis: 7 * 24 * 60 * 60,
+    performTranslation: 7 * 24 * 60 * 60,
+    retranslateBlock: 7 * 24 * 60 * 60,
+    enhanceReadability: 7 * 24 * 60 * 60,
+};
+
+// 결과 형식이 바뀐 action은 이름을 바꿔, 예전 형식으로 저장된 항목을 읽지 않게 합니다.
+const CACHE_NAMESPACE: Partial<Record<ProxyAction, string>> = {
+    detectLanguage: 'detectLanguage-v2',
+};
+
+// 앞뒤 공백이나 키 순서만 다른 payload가 같은 키를 갖도록 정규화합니다.
+// 문자열 안의 공백은 그대로 둡니다. <pre> 안의 공백처럼 결과를 바꾸는 차이가 있기 때문입니다.
+const normalize = (value: unknown): unknown => {
+    if (typeof value === 'string') return value.trim();
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value).sort().map(key => [key, normalize((value as Record<string, unknown>)[key])]),
+        );
+    }
+    return value;
+};
+
+// scope가 있으면 같은 payload라도 scope마다 다른 항목이 됩니다. 클라이언트마다 결과가 다를 수 있는 요청에 씁니다.
+export const cacheKey = (action: ProxyAction, payload: object, scope?: string): string => {
+    const model = (payload as { model?: string }).model ?? 'default';
+    const hashed = scope === undefined ? normalize(payload) : { scope, payload: normalize(payload) };
+    const payloadHash = crypto.createHash('sha256').update(JSON.stringify(hashed)).digest('hex');
+    return `${CACHE_NAMESPACE[action] ?? action}-${model}-${payloadHash}`;
+};
+
+export interface ResponseCache {
+    get(action: ProxyAction, payload: object, scope?: string): Promise<unknown | undefined>;
+    set(action: ProxyAction, payload: object, value: unknown, scope?: string): Promise<void>;
+}
+
+export const createResponseCache = (store: CacheStore, ttlOverrideSeconds?: number): ResponseCache => ({
+    async get(action, payload, scope) {
+        const key = cacheKey(action, payload, scope);
+        const entry = await store.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            await store.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    },
+    async set(action, payload, value, scope) {
+        const ttlSeconds = ttlOverrideSeconds ?? DEFAULT_TTL_SECONDS[action];
+        await store.set(cacheKey(action, payload, scope), { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+});
+
+/**
+ * 환경 변수로 캐시 저장소를 구성합니다.
+ * - CACHE_STORE=memory (기본값) | file | none
+ * - CACHE_DIR: 파일 저장소 경로 (기본값 .cache/proxy)
+ * - CACHE_MAX_ENTRIES: 메모리 저장소의 최대 항목 수
+ * - CACHE_TTL_SECONDS: 모든 action에 같은 TTL을 적용할 때 사용
+ */
+export const createCacheFromEnv = (env: NodeJS.ProcessEnv = process.env): ResponseCache | null => {
+    const ttlOverride = env.CACHE_TTL_SECONDS ? Number(env.CACHE_TTL_SECONDS) : undefined;
+    switch ((env.CACHE_STORE || 'memory').toLowerCase()) {
+        case 'none':
+            return null;
+        case 'file':
+            return createResponseCache(createFileCacheStore(env.CACHE_DIR || '.cache/proxy'), ttlOverride);
+        default:
+            return createResponseCache(createMemoryCacheStore(Number(env.CACHE_MAX_ENTRIES) || undefined), ttlOverride);
+    }
+};
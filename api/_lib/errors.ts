@@ -0,0 +1,144 @@
+import type { VercelResponse } from '@vercel/node';
+import { ApiErrorCode, ApiErrorEnvelope, LlmErrorKind, ProxyAction } from '../../src/types';
+import { ProviderError } from '../../src/core/providers';
+import { LlmCallError, RETRYABLE_KINDS, RetryStats } from '../../src/core/retry';
+import { ChunkTranslationError } from '../../src/core/chunking';
+import { UrlFetchError } from './urlFetcher';
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+    INVALID_REQUEST: 400,
+    URL_NOT_ALLOWED: 400,
+    UNAUTHORIZED: 401,
+    NOT_FOUND: 404,
+    METHOD_NOT_ALLOWED: 405,
+    CANCELLED: 409,
+    PAYLOAD_TOO_LARGE: 413,
+    SAFETY_BLOCKED: 422,
+    RATE_LIMITED: 429,
+    QUOTA_EXCEEDED: 429,
+    INTERNAL_ERROR: 500,
+    UPSTREAM_ERROR: 502,
+    UNSUPPORTED_CONTENT: 502,
+    UPSTREAM_TIMEOUT: 504,
+};
+
+const RETRYABLE_CODES = new Set<ApiErrorCode>(['RATE_LIMITED', 'UPSTREAM_ERROR', 'UPSTREAM_TIMEOUT', 'INTERNAL_ERROR']);
+
+// LLM 호출 실패의 분류와 재시도 횟수. 재시도 래퍼(src/core/retry.ts)를 거친 오류에만 붙습니다.
+export interface LlmFailureDetail {
+    classification: LlmErrorKind;
+    retries: number;
+}
+
+export class ApiError extends Error {
+    readonly status: number;
+    readonly retryable: boolean;
+    // 다시 요청해도 되는 때까지의 초. 응답의 Retry-After 헤더로도 보냅니다.
+    retryAfterSeconds?: number;
+
+    constructor(
+        public readonly code: ApiErrorCode,
+        message: string,
+        public stage?: ProxyAction,
+        public readonly llmFailure?: LlmFailureDetail,
+    ) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = STATUS_BY_CODE[code];
+        this.retryable = RETRYABLE_CODES.has(code) && (!llmFailure || RETRYABLE_KINDS.has(llmFailure.classification));
+    }
+
+    toEnvelope(): ApiErrorEnvelope {
+        return {
+            code: this.code,
+            message: this.message,
+            retryable: this.retryable,
+            stage: this.stage,
+            classification: this.llmFailure?.classification,
+            retries: this.llmFailure?.retries,
+            retryAfter: this.retryAfterSeconds,
+        };
+    }
+}
+
+const fromUrlFetchError = (error: UrlFetchError): ApiErrorCode => {
+    switch (error.statusCode) {
+        case 400:
+        case 403:
+            return 'URL_NOT_ALLOWED';
+        case 413:
+            return 'PAYLOAD_TOO_LARGE';
+        case 499:
+            return 'CANCELLED';
+        case 415:
+            return 'UNSUPPORTED_CONTENT';
+        case 504:
+            return 'UPSTREAM_TIMEOUT';
+        default:
+            return 'UPSTREAM_ERROR';
+    }
+};
+
+const fromProviderError = (error: ProviderError): ApiErrorCode => {
+    if (error.reason === 'SAFETY') return 'SAFETY_BLOCKED';
+    if (error.status === 429) return 'RATE_LIMITED';
+    if (error.status === 504) return 'UPSTREAM_TIMEOUT';
+    return 'UPSTREAM_ERROR';
+};
+
+const fromErrorKind = (kind: LlmErrorKind): ApiErrorCode => {
+    switch (kind) {
+        case 'RATE_LIMITED':
+            return 'RATE_LIMITED';
+        case 'TIMEOUT':
+            return 'UPSTREAM_TIMEOUT';
+        case 'SAFETY_BLOCKED':
+            return 'SAFETY_BLOCKED';
+        case 'CANCELLED':
+            return 'CANCELLED';
+        default:
+            return 'UPSTREAM_ERROR';
+    }
+};
+
+// 구간 번역 오류처럼 다른 예외에 감싸진 경우에도 원래의 LLM 호출 실패를 찾습니다.
+const llmCallErrorOf = (error: unknown): LlmCallError | undefined => {
+    if (error instanceof LlmCallError) return error;
+    if (error instanceof ChunkTranslationError) return llmCallErrorOf(error.cause);
+    return undefined;
+};
+
+// 처리 중 발생한 모든 예외를 응답용 ApiError로 변환합니다.
+// retryStats를 넘기면 실패한 호출 하나가 아니라 요청 전체의 재시도 횟수를 보고합니다.
+export const toApiError = (error: unknown, stage?: ProxyAction, retryStats?: RetryStats): ApiError => {
+    if (error instanceof ApiError) {
+        error.stage ??= stage;
+        return error;
+    }
+    // 구간 번역 중에 던진 ApiError(예: 보호 패턴 제한 시간 초과)는 그대로 전달합니다.
+    if (error instanceof ChunkTranslationError && error.cause instanceof ApiError) {
+        return toApiError(error.cause, stage, retryStats);
+    }
+    if (error instanceof UrlFetchError) {
+        return new ApiError(fromUrlFetchError(error), error.message, stage);
+    }
+    const callError = llmCallErrorOf(error);
+    if (callError) {
+        const message = `AI 모델 호출 실패: ${(error as Error).message}`;
+        return new ApiError(fromErrorKind(callError.kind), message, stage, {
+            classification: callError.kind,
+            retries: retryStats?.retries ?? callError.retries,
+        });
+    }
+    if (error instanceof ProviderError) {
+        return new ApiError(fromProviderError(error), `AI 모델 호출 실패: ${error.message}`, stage);
+    }
+    const message = error instanceof Error && error.message ? error.message : 'An internal server error occurred.';
+    return new ApiError('INTERNAL_ERROR', message, stage);
+};
+
+// 모든 API 핸들러가 같은 형식으로 오류를 응답합니다. 한도 초과 오류에는 Retry-After 헤더를 붙입니다.
+export const sendError = (res: VercelResponse, error: ApiError) => {
+    if (error.retryAfterSeconds !== undefined) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    return res.status(error.status).json({ error: error.toEnvelope() });
+};
@@ -0,0 +1,300 @@
+import crypto from 'node:crypto';
+import { ApiError, toApiError } from './errors';
+import { clientKeyOf } from './auth';
+import type { ClientIdentity } from './rateLimit';
+import { fetchPage } from './urlFetcher';
+import { cache, createLlm, protectionOptions, responseMeta, CACHED_META, MAX_DEADLINE_MS, TRANSLATION_OPTIONS } from './runtime';
+import { analysisTextOf, detectLanguage, needsTranslation, performAnalysis, translateAnalysis, translateIncrementally } from '../../src/core/pipeline';
+import { extractMainContent, hasTextContent, textToHtml } from '../../src/core/extract';
+import { findGlossaryViolations, glossaryFor } from '../../src/core/glossary';
+import { htmlToText } from '../../src/core/html';
+import { compareStructure } from '../../src/core/structure';
+import { sumUsage } from '../../src/core/usage';
+import { AnalysisOutput, JobArtifacts, JobInput, JobResult, LanguageDetection, JobSnapshot, JobStatus, ProxyAction, ProxyResponseMeta, UsageSummary } from '../../src/types';
+import type { RetryingProvider } from '../../src/core/retry';
+import type { TranslationMemory } from '../../src/core/translationMemory';
+
+// 끝난 작업을 보관하는 시간. 지나면 다음 작업이 만들어질 때 정리됩니다.
+const JOB_RETENTION_MS = (Number(process.env.JOB_RETENTION_SECONDS) || 60 * 60) * 1000;
+
+// 프로세스 안에서만 유지되는 작업 저장소입니다. 서버가 다시 시작되면 작업도 사라집니다.
+const jobs = new Map<string, JobSnapshot>();
+const controllers = new Map<string, AbortController>();
+// 작업을 만든 클라이언트의 키(clientKeyOf). 작업 내용과 달리 응답에는 싣지 않습니다.
+const owners = new Map<string, string>();
+
+const isFinished = (status: JobStatus) =>
+    status === JobStatus.COMPLETED || status === JobStatus.FAILED || status === JobStatus.CANCELLED;
+
+const pruneFinishedJobs = () => {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    for (const [id, job] of jobs) {
+        if (isFinished(job.status) && job.updatedAt < cutoff) {
+            jobs.delete(id);
+            owners.delete(id);
+        }
+    }
+};
+
+const update = (job: JobSnapshot, patch: Partial<JobSnapshot>) => {
+    Object.assign(job, patch, { updatedAt: Date.now() });
+};
+
+const toJobResult = (
+    input: JobInput,
+    sourceLanguage: LanguageDetection,
+    analysis: AnalysisOutput,
+    content: string,
+    fullTranslation: string,
+    processingTime: JobResult['processingTime'],
+): JobResult => ({
+    title: analysis.title,
+    originalUrl: input.url ?? '',
+    targetLanguage: input.targetLanguage,
+    ...(input.style && { style: input.style }),
+    sourceLanguage,
+    originalContent: content,
+    processingTime,
+    outputs: {
+        oneLineSummary: analysis.oneLineSummary,
+        keyPoints: analysis.keyPoints,
+        keyPlayers: analysis.keyPlayers,
+        keywords: analysis.keywords,
+        fullTranslation,
+    },
+});
+
+// 단계별 토큰 사용량. 캐시에서 가져왔거나 LLM을 부르지 않은 단계는 비용이 없으므로 뺍니다.
+const usageOf = (stageMeta: JobSnapshot['stageMeta']): JobResult['usage'] => {
+    const stages: Partial<Record<ProxyAction, UsageSummary>> = {};
+    for (const [action, meta] of Object.entries(stageMeta) as [ProxyAction, JobSnapshot['stageMeta'][ProxyAction]][]) {
+        const usage = meta?.usage;
+        if (usage && usage.promptTokens + usage.candidatesTokens + usage.thinkingTokens > 0) stages[action] = usage;
+    }
+    return { stages, total: sumUsage(Object.values(stages) as UsageSummary[]) };
+};
+
+// 이전 작업에서 가져온 단계에 붙이는 메타데이터. 실제로 실행하지 않았으므로 재시도와 사용량이 없습니다.
+const RESUMED_META: ProxyResponseMeta = { cached: false, resumed: true, retries: 0 };
+
+// URL 작업에서 추출한 본문 길이를 일일 처리 한도에 반영합니다. 한도를 넘으면 던진 오류로 작업이 실패합니다.
+type ChargeContent = (chars: number) => Promise<void>;
+
+// 브라우저의 handleJobSubmit과 같은 순서로 파이프라인을 실행하며 작업 상태를 갱신합니다.
+// resume에 결과가 있는 단계는 건너뛰므로, 실패한 작업을 실패한 단계부터 다시 실행할 수 있습니다.
+const runJob = async (
+    job: JobSnapshot,
+    bypassCache: boolean,
+    chargeContent: ChargeContent,
+    resume: JobArtifacts,
+    memory: TranslationMemory | undefined,
+    memoryOwner: string,
+    signal: AbortSignal,
+) => {
+    const { model, targetLanguage, protection, style } = job.input;
+    const deadlineAt = job.createdAt + MAX_DEADLINE_MS;
+
+    // 취소된 작업에는 더 이상 결과를 기록하지 않습니다.
+    const advance = (patch: Partial<JobSnapshot>) => {
+        if (signal.aborted) throw new ApiError('CANCELLED', '작업이 취소되었습니다.');
+        update(job, patch);
+    };
+
+    // proxy action과 같은 캐시 항목을 사용하고, 단계별 캐시/재시도 정보를 기록합니다.
+    // 시작/종료 시각은 조회하는 쪽에서 진행 단계와 남은 시간을 보여주는 데 씁니다.
+    // 번역 메모리를 쓰는 번역은 proxy와 같이 작업을 만든 클라이언트별로 캐시합니다.
+    const runStage = async <T>(action: ProxyAction, payload: object, run: (llm: RetryingProvider) => Promise<T>): Promise<T> => {
+        const cacheScope = action === 'performTranslation' && memory ? memoryOwner : undefined;
+        const startedAt = Date.now();
+        job.stageTimings = { ...job.stageTimings, [action]: { startedAt } };
+        const finish = (meta: ProxyResponseMeta) => {
+            job.stageMeta = { ...job.stageMeta, [action]: meta };
+            job.stageTimings = { ...job.stageTimings, [action]: { startedAt, endedAt: Date.now() } };
+        };
+
+        if (cache && !bypassCache) {
+            const cached = await cache.get(action, payload, cacheScope);
+            if (cached !== undefined) {
+                finish(CACHED_META);
+                return cached as T;
+            }
+        }
+        const llm = createLlm(deadlineAt, signal);
+        let result: T;
+        try {
+            result = await run(llm);
+        } catch (error) {
+            throw toApiError(error, action, llm.stats);
+        }
+        await cache?.set(action, payload, result, cacheScope);
+        finish(responseMeta(llm));
+        return result;
+    };
+
+    // 이전 작업의 결과를 그대로 쓰는 단계도 진행 목록에는 끝난 단계로 보이도록 기록합니다.
+    const reuse = <T>(action: ProxyAction, value: T): T => {
+        const now = Date.now();
+        job.stageMeta = { ...job.stageMeta, [action]: RESUMED_META };
+        job.stageTimings = { ...job.stageTimings, [action]: { startedAt: now, endedAt: now } };
+        return value;
+    };
+
+    // 끝난 단계의 결과는 작업이 실패하더라도 남겨 두어 다음 작업에서 이어서 쓸 수 있게 합니다.
+    const keep = <K extends keyof JobArtifacts>(key: K, value: NonNullable<JobArtifacts[K]>) => {
+        job.artifacts = { ...job.artifacts, [key]: value };
+        return value;
+    };
+
+    try {
+        let content: string;
+        if (job.input.url !== undefined) {
+            const url = job.input.url;
+            advance({ status: JobStatus.EXTRACTING });
+            if (resume.content !== undefined) {
+                content = reuse('fetchUrl', resume.content);
+            } else {
+                // 오류 페이지는 본문으로 쓰지 않고, 캐시에도 남기지 않습니다. 서버 오류(5xx)만 다시 시도할 만한 실패로 봅니다.
+                const page = await runStage('fetchUrl', { url }, async () => {
+                    const fetched = await fetchPage(url, signal);
+                    if (fetched.status >= 400) {
+                        const code = fetched.status >= 500 ? 'UPSTREAM_ERROR' : 'UNSUPPORTED_CONTENT';
+                        throw new ApiError(code, `페이지가 ${fetched.status} 코드로 응답했습니다.`);
+                    }
+                    return fetched;
+                });
+                content = extractMainContent(page.html, page.finalUrl || url);
+                if (!hasTextContent(content)) {
+                    throw new ApiError('UNSUPPORTED_CONTENT', '페이지에서 텍스트 콘텐츠를 추출하지 못했습니다.', 'fetchUrl');
+                }
+                keep('content', content);
+            }
+            // 이어서 실행할 때 받은 본문도 클라이언트가 보낸 것이므로 다시 집계합니다.
+            await chargeContent(content.length);
+        } else {
+            content = textToHtml(job.input.text);
+        }
+        job.contentLength = content.length;
+
+        advance({ status: JobStatus.DETECTING_LANGUAGE });
+        const language = resume.language !== undefined
+            ? reuse('detectLanguage', resume.language)
+            : keep('language', await runStage('detectLanguage', { contentHtml: content }, llm => detectLanguage(llm, content)));
+
+        advance({ status: JobStatus.ANALYZING });
+        const analysis = resume.analysis !== undefined
+            ? reuse('performAnalysis', resume.analysis)
+            : keep('analysis', await runStage('performAnalysis', { contentHtml: content, model }, llm => performAnalysis(llm, content, model)));
+
+        let finalAnalysis = analysis;
+        let fullTranslation = content;
+        let glossaryViolations: JobResult['glossaryViolations'];
+        let structureIssues: JobResult['structureIssues'];
+        if (needsTranslation(language.language, targetLanguage)) {
+            // 본문에 나오는 용어집 항목만 프롬프트와 캐시 키에 넣습니다. 용어집의 다른 항목이 바뀌어도 캐시는 그대로 씁니다.
+            const contentText = htmlToText(content);
+            const entries = glossaryFor(job.input.glossary ?? [], contentText, targetLanguage);
+            const glossary = entries.length > 0 ? entries : undefined;
+            // 번역이 끝나기 전에도 조회하면 분석 결과와 지금까지 받은 번역을 볼 수 있습니다.
+            // 분석은 번역되기 전까지 원문 언어로 보이고, 어느 쪽이 끝났는지는 stageTimings로 알 수 있습니다.
+            const draft = toJobResult(job.input, language, analysis, content, resume.translation ?? '', { total: 0 });
+            advance({ status: JobStatus.TRANSLATING, partialResult: draft });
+            const showTranslatedAnalysis = (translated: AnalysisOutput) => {
+                if (!signal.aborted) {
+                    Object.assign(draft, toJobResult(job.input, language, translated, content, draft.outputs.fullTranslation, draft.processingTime));
+                    job.updatedAt = Date.now();
+                }
+                return translated;
+            };
+            // 한쪽이 실패해도 다른 쪽이 끝날 때까지 기다려, 성공한 번역은 다음 작업에서 다시 쓰도록 남깁니다.
+            const [analysisResult, translationResult] = await Promise.allSettled([
+                resume.translatedAnalysis !== undefined
+                    ? showTranslatedAnalysis(reuse('translateAnalysis', resume.translatedAnalysis))
+                    : runStage('translateAnalysis', { analysis, model, targetLanguage, glossary, style }, llm =>
+                        translateAnalysis(llm, analysis, model, targetLanguage, entries, style))
+                        .then(translated => showTranslatedAnalysis(keep('translatedAnalysis', translated))),
+                resume.translation !== undefined
+                    ? reuse('performTranslation', resume.translation)
+                    : runStage('performTranslation', { contentHtml: content, model, targetLanguage, glossary, protection, style }, llm =>
+                        translateIncrementally(llm, content, model, targetLanguage, text => {
+                            if (signal.aborted) return;
+                            draft.outputs.fullTranslation += text;
+                            job.updatedAt = Date.now();
+                        }, { ...TRANSLATION_OPTIONS, memory, glossary: entries, sourceLanguage: language.language, ...protectionOptions(protection), style }))
+                        .then(translation => keep('translation', translation)),
+            ]);
+            if (analysisResult.status === 'rejected') throw analysisResult.reason;
+            if (translationResult.status === 'rejected') throw translationResult.reason;
+            [finalAnalysis, fullTranslation] = [analysisResult.value, translationResult.value];
+
+            // 모델이 용어집을 따르지 않은 곳은 결과를 막지 않고 경고로만 알립니다.
+            if (glossary) {
+                glossaryViolations = [
+                    ...findGlossaryViolations(entries, analysisTextOf(analysis), analysisTextOf(finalAnalysis), 'translateAnalysis'),
+                    ...findGlossaryViolations(entries, contentText, htmlToText(fullTranslation), 'performTranslation'),
+                ];
+            }
+            // 다시 번역한 뒤에도 남은 구조 차이입니다. 캐시나 이전 작업에서 가져온 번역도 같은 기준으로 확인합니다.
+            const { issues } = compareStructure(content, fullTranslation);
+            if (issues.length > 0) structureIssues = issues;
+        }
+
+        const total = (Date.now() - job.createdAt) / 1000;
+        advance({
+            status: JobStatus.COMPLETED,
+            partialResult: undefined,
+            result: {
+                ...toJobResult(job.input, language, finalAnalysis, content, fullTranslation, { total, stages: job.stageTimings }),
+                usage: usageOf(job.stageMeta),
+                ...(glossaryViolations && { glossaryViolations }),
+                ...(structureIssues && { structureIssues }),
+            },
+        });
+    } catch (error) {
+        if (signal.aborted) return;
+        console.error(`Job ${job.id} failed:`, error);
+        update(job, { status: JobStatus.FAILED, partialResult: undefined, error: toApiError(error).toEnvelope() });
+    }
+};
+
+/**
+ * 작업을 만들고 바로 반환합니다. 파이프라인은 응답 후에도 같은 프로세스에서 계속 실행되므로,
+ * 요청이 끝나면 멈추는 서버리스 환경이 아니라 계속 떠 있는 Node 프로세스에서 사용해야 합니다.
+ * memory는 작업을 만든 클라이언트의 번역 메모리입니다. 작업은 그 클라이언트만 조회하고 취소할 수 있습니다.
+ */
+export const createJob = (
+    input: JobInput,
+    client: ClientIdentity,
+    bypassCache: boolean,
+    chargeContent: ChargeContent = async () => {},
+    resume: JobArtifacts = {},
+    memory?: TranslationMemory,
+): JobSnapshot => {
+    pruneFinishedJobs();
+    const now = Date.now();
+    const job: JobSnapshot = {
+        id: crypto.randomUUID(), status: JobStatus.QUEUED, input, createdAt: now, updatedAt: now, stageMeta: {}, stageTimings: {}, artifacts: { ...resume },
+    };
+    const owner = clientKeyOf(client);
+    jobs.set(job.id, job);
+    owners.set(job.id, owner);
+
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    void runJob(job, bypassCache, chargeContent, resume, memory, owner, controller.signal).finally(() => controllers.delete(job.id));
+    return job;
+};
+
+// 다른 클라이언트의 작업은 없는 작업과 똑같이 undefined를 돌려주어, 작업이 있는지도 알 수 없게 합니다.
+export const getJob = (id: string, client: ClientIdentity): JobSnapshot | undefined =>
+    owners.get(id) === clientKeyOf(client) ? jobs.get(id) : undefined;
+
+// 실행 중인 작업을 CANCELLED로 끝내고, 진행 중인 페이지 요청과 모델 호출을 끊습니다. 이미 끝난 작업은 그대로 둡니다.
+export const cancelJob = (id: string, client: ClientIdentity): JobSnapshot | undefined => {
+    const job = getJob(id, client);
+    const controller = controllers.get(id);
+    if (job && controller && !isFinished(job.status)) {
+        controller.abort();
+        update(job, { status: JobStatus.CANCELLED, partialResult: undefined });
+    }
+    return job;
+};
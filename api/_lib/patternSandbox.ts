@@ -0,0 +1,65 @@
+import vm from 'node:vm';
+import { ProtectionPatternMatcher, TextRange } from '../../src/core/protection';
+import { ApiError } from './errors';
+
+// 사용자 정의 보호 패턴은 (a+)+$ 처럼 역추적이 폭발하는 정규식일 수 있으므로, 별도 컨텍스트에서 시간 제한을 두고 실행합니다.
+// 제한 시간은 요청(작업) 하나가 패턴 실행에 쓸 수 있는 시간의 합계이고, 찾은 구간 수도 제한합니다.
+
+// 요청 하나가 사용자 패턴 실행에 쓸 수 있는 시간(ms)
+const PATTERN_BUDGET_MS = Number(process.env.PROTECTION_PATTERN_BUDGET_MS) || 200;
+// 요청 하나에서 사용자 패턴으로 찾을 수 있는 구간 수
+const MAX_PATTERN_MATCHES = 10_000;
+
+// 컨텍스트 안에서 실행되는 코드. 입력(texts, patterns, limit)을 읽고, 각 텍스트의 [시작, 끝, 시작, 끝, ...]을 돌려줍니다.
+const MATCH_SCRIPT = new vm.Script(`
+    (() => {
+        const compiled = patterns.map(pattern => new RegExp(pattern, 'g'));
+        let count = 0;
+        return texts.map(text => {
+            const found = [];
+            for (const pattern of compiled) {
+                for (const match of text.matchAll(pattern)) {
+                    if (++count > limit) throw new Error('limit');
+                    found.push(match.index, match.index + match[0].length);
+                }
+            }
+            return found;
+        });
+    })()
+`);
+
+const toRanges = (flat: number[]): TextRange[] => {
+    const ranges: TextRange[] = [];
+    for (let i = 0; i < flat.length; i += 2) ranges.push({ start: flat[i], end: flat[i + 1] });
+    return ranges;
+};
+
+/**
+ * 패턴을 시간 제한 안에서 실행하는 matcher를 만듭니다. 요청마다 새로 만들어야 제한 시간이 요청 단위로 적용됩니다.
+ * 제한 시간을 넘기거나 찾은 구간이 너무 많으면 INVALID_REQUEST ApiError를 던집니다.
+ */
+export const createPatternMatcher = (patterns: string[], budgetMs = PATTERN_BUDGET_MS): ProtectionPatternMatcher => {
+    let remainingMs = budgetMs;
+    let matchCount = 0;
+    return texts => {
+        const context = vm.createContext({ texts, patterns, limit: MAX_PATTERN_MATCHES - matchCount });
+        const startedAt = performance.now();
+        let result: number[][];
+        try {
+            result = MATCH_SCRIPT.runInContext(context, { timeout: Math.max(1, Math.ceil(remainingMs)) });
+        } catch (error) {
+            if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+                throw new ApiError('INVALID_REQUEST', `'protection.patterns' took longer than ${budgetMs} ms to run over the content; simplify the patterns.`);
+            }
+            if ((error as Error).message === 'limit') {
+                throw new ApiError('INVALID_REQUEST', `'protection.patterns' matched more than ${MAX_PATTERN_MATCHES.toLocaleString()} times; use narrower patterns.`);
+            }
+            throw error;
+        } finally {
+            remainingMs -= performance.now() - startedAt;
+        }
+        const ranges = result.map(toRanges);
+        matchCount += ranges.reduce((sum, found) => sum + found.length, 0);
+        return ranges;
+    };
+};
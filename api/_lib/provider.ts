@@ -0,0 +1,48 @@
+import fs from 'node:fs';
+import {
+    LlmProvider,
+    createFakeProvider,
+    createGeminiProvider,
+    createOpenAiCompatibleProvider,
+    FakeFixture,
+} from '../../src/core/providers';
+
+/**
+ * 환경 변수로 LLM 제공자를 선택합니다.
+ * - LLM_PROVIDER=gemini (기본값): API_KEY
+ * - LLM_PROVIDER=openai: OPENAI_BASE_URL, OPENAI_API_KEY(선택), OPENAI_MODEL, OPENAI_MODEL_LITE(선택)
+ * - LLM_PROVIDER=fake: LLM_FIXTURES(선택, 픽스처 JSON 파일 경로) — API 키 없이 오프라인으로 동작합니다.
+ */
+export const createProviderFromEnv = (env: NodeJS.ProcessEnv = process.env): LlmProvider => {
+    const providerName = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+    switch (providerName) {
+        case 'openai': {
+            if (!env.OPENAI_BASE_URL || !env.OPENAI_MODEL) {
+                throw new Error("OPENAI_BASE_URL and OPENAI_MODEL environment variables must be set for LLM_PROVIDER=openai.");
+            }
+            return createOpenAiCompatibleProvider({
+                baseUrl: env.OPENAI_BASE_URL,
+                apiKey: env.OPENAI_API_KEY,
+                models: {
+                    'gemini-2.5-flash': env.OPENAI_MODEL,
+                    'gemini-2.5-flash-lite': env.OPENAI_MODEL_LITE || env.OPENAI_MODEL,
+                },
+            });
+        }
+        case 'fake': {
+            const fixtures: FakeFixture[] = env.LLM_FIXTURES
+                ? JSON.parse(fs.readFileSync(env.LLM_FIXTURES, 'utf-8'))
+                : [];
+            return createFakeProvider(fixtures);
+        }
+        case 'gemini': {
+            if (!env.API_KEY) {
+                throw new Error("API_KEY environment variable not set.");
+            }
+            return createGeminiProvider(env.API_KEY);
+        }
+        default:
+            throw new Error(`Unknown LLM_PROVIDER: '${providerName}'`);
+    }
+};
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createMemoryCounterStore, createRateLimiter, QuotaExceededError, RateLimits } from './rateLimit';
+
+const LIMITS: RateLimits = {
+    requestsPerMinutePerToken: 3,
+    requestsPerMinutePerIp: 2,
+    dailyCharsPerToken: 0,
+    dailyCharsPerIp: 1_000,
+};
+
+const rejection = (promise: Promise<unknown>) => promise.then(() => expect.fail('expected the limit to be exceeded'), (error: unknown) => error);
+
+describe('createRateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T12:00:15.200Z'));
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('reports the seconds until the current window ends as Retry-After', async () => {
+        const limiter = createRateLimiter(createMemoryCounterStore(), LIMITS);
+        const client = { ip: '203.0.113.5' };
+        await limiter.consumeRequest(client);
+        await limiter.consumeRequest(client);
+
+        const error = await rejection(limiter.consumeRequest(client));
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        // 12:00:15.2에서 12:01:00까지 44.8초, 올림해서 45초
+        expect((error as QuotaExceededError).retryAfterSeconds).toBe(45);
+        expect((error as QuotaExceededError).status).toBe(429);
+        expect((error as QuotaExceededError).toEnvelope().retryAfter).toBe(45);
+    });
+
+    it('allows requests again once the next window starts', async () => {
+        const limiter = createRateLimiter(createMemoryCounterStore(), LIMITS);
+        const client = { ip: '203.0.113.5' };
+        await limiter.consumeRequest(client);
+        await limiter.consumeRequest(client);
+        await rejection(limiter.consumeRequest(client));
+
+        vi.setSystemTime(new Date('2026-01-01T12:01:00.000Z'));
+        await expect(limiter.consumeRequest(client)).resolves.toBeUndefined();
+    });
+
+    it('makes the daily character quota wait until midnight UTC', async () => {
+        const limiter = createRateLimiter(createMemoryCounterStore(), LIMITS);
+        const client = { tokenId: 'team', ip: '203.0.113.5' };
+        await limiter.consumeChars(client, 900);
+
+        const error = await rejection(limiter.consumeChars(client, 200));
+        expect((error as QuotaExceededError).retryAfterSeconds).toBe(12 * 60 * 60 - 15);
+        // 거절된 요청은 세지 않으므로 남은 만큼은 쓸 수 있습니다.
+        await expect(limiter.consumeChars(client, 100)).resolves.toBeUndefined();
+    });
+
+    it('counts the token and IP limits separately', async () => {
+        const limiter = createRateLimiter(createMemoryCounterStore(), LIMITS);
+        await limiter.consumeRequest({ tokenId: 'a', ip: '203.0.113.5' });
+        await limiter.consumeRequest({ tokenId: 'b', ip: '203.0.113.5' });
+
+        // 토큰 a는 한도가 남았지만 IP 한도를 넘었습니다.
+        const error = await rejection(limiter.consumeRequest({ tokenId: 'a', ip: '203.0.113.5' }));
+        expect((error as QuotaExceededError).message).toContain('IP');
+        await expect(limiter.consumeRequest({ tokenId: 'a', ip: '198.51.100.7' })).resolves.toBeUndefined();
+    });
+
+    it('skips a rule whose limit is 0', async () => {
+        const limiter = createRateLimiter(createMemoryCounterStore(), { ...LIMITS, requestsPerMinutePerIp: 0 });
+        for (let i = 0; i < 10; i++) await limiter.consumeRequest({ ip: '203.0.113.5' });
+    });
+});
+
+// 응답 헤더만 기록하는 최소한의 VercelResponse
+const createResponse = () => {
+    const response = {
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        body: undefined as unknown,
+        setHeader(name: string, value: string) {
+            response.headers[name.toLowerCase()] = value;
+            return response;
+        },
+        status(code: number) {
+            response.statusCode = code;
+            return response;
+        },
+        json(body: unknown) {
+            response.body = body;
+            return response;
+        },
+        on: () => response,
+    };
+    return response;
+};
+
+describe('/api/proxy', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.stubEnv('RATE_LIMIT_PER_IP', '1');
+        vi.stubEnv('LIMIT_STORE', 'memory');
+        vi.stubEnv('API_TOKENS', '');
+        vi.stubEnv('CACHE_STORE', 'none');
+        vi.stubEnv('LLM_PROVIDER', 'fake');
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it('answers a request over the limit with 429 and a Retry-After header', async () => {
+        const { default: handler } = await import('../proxy');
+        const request = { method: 'POST', headers: {}, socket: { remoteAddress: '203.0.113.5' }, body: {} } as unknown as VercelRequest;
+
+        const first = createResponse();
+        await handler(request, first as unknown as VercelResponse);
+        expect(first.statusCode).toBe(400);
+
+        const second = createResponse();
+        await handler(request, second as unknown as VercelResponse);
+        expect(second.statusCode).toBe(429);
+        expect(Number(second.headers['retry-after'])).toBeGreaterThanOrEqual(1);
+        expect(Number(second.headers['retry-after'])).toBeLessThanOrEqual(60);
+        expect(second.body).toMatchObject({ error: { code: 'QUOTA_EXCEEDED', retryAfter: Number(second.headers['retry-after']) } });
+    });
+});
@@ -0,0 +1,224 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { ApiError } from './errors';
+
+export interface CounterResult {
+    // 이번 요청으로 한도를 넘었다면 false. 이때 카운터는 늘어나지 않습니다.
+    allowed: boolean;
+    count: number;
+    resetAt: number; // epoch ms, 현재 창이 끝나는 시각
+}
+
+// 고정 창(fixed window) 카운터 저장소 인터페이스. 메모리, 파일, SQLite 저장소를 기본 제공합니다.
+export interface CounterStore {
+    // key의 현재 창에 amount를 더합니다. 더한 값이 limit을 넘으면 더하지 않고 allowed: false를 반환합니다.
+    consume(key: string, amount: number, limit: number, resetAt: number): Promise<CounterResult>;
+}
+
+interface Counter {
+    count: number;
+    resetAt: number;
+}
+
+const applyConsume = (counter: Counter | undefined, amount: number, limit: number, resetAt: number): Counter & { allowed: boolean } => {
+    const current = counter && counter.resetAt > Date.now() ? counter : { count: 0, resetAt };
+    if (current.count + amount > limit) return { ...current, allowed: false };
+    return { count: current.count + amount, resetAt: current.resetAt, allowed: true };
+};
+
+const pruneExpired = (counters: Map<string, Counter> | Record<string, Counter>) => {
+    const now = Date.now();
+    if (counters instanceof Map) {
+        for (const [key, counter] of counters) {
+            if (counter.resetAt <= now) counters.delete(key);
+        }
+    } else {
+        for (const key of Object.keys(counters)) {
+            if (counters[key].resetAt <= now) delete counters[key];
+        }
+    }
+};
+
+export const createMemoryCounterStore = (): CounterStore => {
+    const counters = new Map<string, Counter>();
+    return {
+        async consume(key, amount, limit, resetAt) {
+            if (counters.size > 10_000) pruneExpired(counters);
+            const { allowed, ...counter } = applyConsume(counters.get(key), amount, limit, resetAt);
+            if (allowed) counters.set(key, counter);
+            return { allowed, ...counter };
+        },
+    };
+};
+
+// 모든 카운터를 JSON 파일 하나에 저장합니다. 한 프로세스에서만 쓰는 자체 호스팅용입니다.
+export const createFileCounterStore = (filePath: string): CounterStore => {
+    // 읽고-고치고-쓰는 사이에 다른 요청이 끼어들지 않도록 차례로 실행합니다.
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const readCounters = async (): Promise<Record<string, Counter>> => {
+        try {
+            return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        } catch {
+            return {};
+        }
+    };
+
+    const consume = async (key: string, amount: number, limit: number, resetAt: number): Promise<CounterResult> => {
+        const counters = await readCounters();
+        const { allowed, ...counter } = applyConsume(counters[key], amount, limit, resetAt);
+        if (allowed) {
+            counters[key] = counter;
+            pruneExpired(counters);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            const tempFile = `${filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tempFile, JSON.stringify(counters), 'utf-8');
+            await fs.rename(tempFile, filePath);
+        }
+        return { allowed, ...counter };
+    };
+
+    return {
+        consume(key, amount, limit, resetAt) {
+            const result = queue.then(() => consume(key, amount, limit, resetAt));
+            queue = result.catch(() => undefined);
+            return result;
+        },
+    };
+};
+
+// node:sqlite(Node 22.5 이상)에서 사용하는 부분만 선언합니다.
+interface SqliteStatement {
+    get(...params: unknown[]): unknown;
+    run(...params: unknown[]): unknown;
+}
+interface SqliteDatabase {
+    exec(sql: string): void;
+    prepare(sql: string): SqliteStatement;
+}
+
+// 여러 프로세스가 같은 파일을 써도 트랜잭션으로 카운터가 어긋나지 않습니다.
+export const createSqliteCounterStore = (filePath: string): CounterStore => {
+    const database = (async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const { DatabaseSync } = await import('node:sqlite' as string);
+        const db: SqliteDatabase = new DatabaseSync(filePath);
+        db.exec('CREATE TABLE IF NOT EXISTS counters (key TEXT PRIMARY KEY, count INTEGER NOT NULL, reset_at INTEGER NOT NULL)');
+        return {
+            db,
+            select: db.prepare('SELECT count, reset_at AS resetAt FROM counters WHERE key = ?'),
+            upsert: db.prepare(
+                'INSERT INTO counters (key, count, reset_at) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET count = excluded.count, reset_at = excluded.reset_at',
+            ),
+            prune: db.prepare('DELETE FROM counters WHERE reset_at <= ?'),
+        };
+    })();
+
+    return {
+        async consume(key, amount, limit, resetAt) {
+            const { db, select, upsert, prune } = await database;
+            db.exec('BEGIN IMMEDIATE');
+            try {
+                const { allowed, ...counter } = applyConsume(select.get(key) as Counter | undefined, amount, limit, resetAt);
+                if (allowed) upsert.run(key, counter.count, counter.resetAt);
+                if (Math.random() < 0.01) prune.run(Date.now());
+                db.exec('COMMIT');
+                return { allowed, ...counter };
+            } catch (error) {
+                db.exec('ROLLBACK');
+                throw error;
+            }
+        },
+    };
+};
+
+// 요청을 보낸 쪽. 토큰 인증을 쓰지 않으면 tokenId가 없습니다.
+export interface ClientIdentity {
+    tokenId?: string;
+    ip: string;
+}
+
+export interface RateLimits {
+    // 분당 요청 수
+    requestsPerMinutePerToken: number;
+    requestsPerMinutePerIp: number;
+    // 하루(UTC) 동안 처리할 수 있는 문자 수
+    dailyCharsPerToken: number;
+    dailyCharsPerIp: number;
+}
+
+export class QuotaExceededError extends ApiError {
+    constructor(message: string, retryAfterSeconds: number) {
+        super('QUOTA_EXCEEDED', message);
+        this.name = 'QuotaExceededError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+export interface RateLimiter {
+    // 요청 한 건과 처리할 문자 수를 기록합니다. 한도를 넘으면 QuotaExceededError를 던집니다.
+    consumeRequest(client: ClientIdentity): Promise<void>;
+    consumeChars(client: ClientIdentity, chars: number): Promise<void>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const endOfWindow = (windowMs: number) => (Math.floor(Date.now() / windowMs) + 1) * windowMs;
+
+export const createRateLimiter = (store: CounterStore, limits: RateLimits): RateLimiter => {
+    // 한도가 0이면 그 규칙은 적용하지 않습니다.
+    const consume = async (key: string, amount: number, limit: number, windowMs: number, describe: () => string) => {
+        if (!limit) return;
+        const resetAt = endOfWindow(windowMs);
+        const result = await store.consume(`${key}:${resetAt}`, amount, limit, resetAt);
+        if (!result.allowed) {
+            throw new QuotaExceededError(describe(), Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000)));
+        }
+    };
+
+    return {
+        async consumeRequest(client) {
+            if (client.tokenId) {
+                await consume(`req:token:${client.tokenId}`, 1, limits.requestsPerMinutePerToken, MINUTE_MS,
+                    () => `이 토큰의 분당 요청 한도(${limits.requestsPerMinutePerToken}회)를 초과했습니다.`);
+            }
+            await consume(`req:ip:${client.ip}`, 1, limits.requestsPerMinutePerIp, MINUTE_MS,
+                () => `이 IP의 분당 요청 한도(${limits.requestsPerMinutePerIp}회)를 초과했습니다.`);
+        },
+        async consumeChars(client, chars) {
+            if (client.tokenId) {
+                await consume(`chars:token:${client.tokenId}`, chars, limits.dailyCharsPerToken, DAY_MS,
+                    () => `이 토큰의 일일 처리 한도(${limits.dailyCharsPerToken.toLocaleString()}자)를 초과했습니다.`);
+            }
+            await consume(`chars:ip:${client.ip}`, chars, limits.dailyCharsPerIp, DAY_MS,
+                () => `이 IP의 일일 처리 한도(${limits.dailyCharsPerIp.toLocaleString()}자)를 초과했습니다.`);
+        },
+    };
+};
+
+const limitFromEnv = (value: string | undefined, fallback: number) => (value === undefined || value === '' ? fallback : Number(value) || 0);
+
+/**
+ * 환경 변수로 요청 한도와 카운터 저장소를 구성합니다. 값을 0으로 두면 그 한도는 적용하지 않습니다.
+ * - RATE_LIMIT_PER_TOKEN / RATE_LIMIT_PER_IP: 분당 요청 수 (기본값 60 / 30)
+ * - DAILY_CHARS_PER_TOKEN / DAILY_CHARS_PER_IP: 하루 처리 문자 수 (기본값 2,000,000 / 500,000)
+ * - LIMIT_STORE=memory (기본값) | file | sqlite
+ * - LIMIT_STORE_PATH: 파일/SQLite 저장소 경로 (기본값 .cache/limits.json, .cache/limits.db)
+ */
+export const createRateLimiterFromEnv = (env: NodeJS.ProcessEnv = process.env): RateLimiter => {
+    const limits: RateLimits = {
+        requestsPerMinutePerToken: limitFromEnv(env.RATE_LIMIT_PER_TOKEN, 60),
+        requestsPerMinutePerIp: limitFromEnv(env.RATE_LIMIT_PER_IP, 30),
+        dailyCharsPerToken: limitFromEnv(env.DAILY_CHARS_PER_TOKEN, 2_000_000),
+        dailyCharsPerIp: limitFromEnv(env.DAILY_CHARS_PER_IP, 500_000),
+    };
+    switch ((env.LIMIT_STORE || 'memory').toLowerCase()) {
+        case 'file':
+            return createRateLimiter(createFileCounterStore(env.LIMIT_STORE_PATH || '.cache/limits.json'), limits);
+        case 'sqlite':
+            return createRateLimiter(createSqliteCounterStore(env.LIMIT_STORE_PATH || '.cache/limits.db'), limits);
+        default:
+            return createRateLimiter(createMemoryCounterStore(), limits);
+    }
+};
@@ -0,0 +1,87 @@
+import { createCacheFromEnv } from './cache';
+import { createProviderFromEnv } from './provider';
+import { ClientIdentity, createRateLimiterFromEnv } from './rateLimit';
+import { clientKeyOf } from './auth';
+import { createTranslationMemoryStoreFromEnv } from './translationMemory';
+import { DEFAULT_PROTECTION } from '../../src/core/protection';
+import { createPatternMatcher } from './patternSandbox';
+import { createRetryingProvider, RetryingProvider } from '../../src/core/retry';
+import type { TranslationOptions } from '../../src/core/pipeline';
+import type { TranslationMemory } from '../../src/core/translationMemory';
+import { DEFAULT_PRICES, PriceTable, summarizeUsage } from '../../src/core/usage';
+import { ProtectionSettings, ProxyResponseMeta } from '../../src/types';
+
+// proxy와 작업(job) API가 함께 쓰는 프로세스 단위 객체와 설정입니다.
+
+// Vercel 환경 변수(LLM_PROVIDER, API_KEY 등)로 LLM 제공자를 구성합니다.
+export const provider = createProviderFromEnv();
+
+// 같은 action/모델/payload에 대한 응답을 재사용합니다. CACHE_STORE=none이면 비활성화됩니다.
+export const cache = createCacheFromEnv();
+
+// 토큰/IP별 분당 요청 수와 일일 처리 문자 수 한도입니다.
+export const limiter = createRateLimiterFromEnv();
+
+// 블록 단위로 번역을 기억해 같은 문단은 다시 번역하지 않습니다. TRANSLATION_MEMORY=none이면 비활성화됩니다.
+const translationMemories = createTranslationMemoryStoreFromEnv();
+
+// 클라이언트(접근 토큰, 토큰을 쓰지 않는 서버에서는 IP)의 번역 메모리. 비활성화되어 있으면 undefined입니다.
+export const translationMemoryFor = (client: ClientIdentity): TranslationMemory | undefined =>
+    translationMemories?.forClient(clientKeyOf(client));
+
+// 0도 의미가 있는 비율 설정을 읽습니다. 설정하지 않았거나 0~1 사이의 숫자가 아니면 fallback을 씁니다.
+const ratioFromEnv = (value: string | undefined, fallback: number): number => {
+    const ratio = value?.trim() ? Number(value) : NaN;
+    return ratio >= 0 && ratio <= 1 ? ratio : fallback;
+};
+
+// 긴 문서 번역 설정: 구간당 토큰 예산, 동시에 번역할 구간 수,
+// HTML 구조가 달라진 블록을 다시 번역하는 기준(구조가 다른 블록의 비율, 기본 0.1, 1이면 다시 번역하지 않음)과
+// 요청에 protection이 없을 때 모델에 보내지 않을 내용
+export const TRANSLATION_OPTIONS: TranslationOptions = {
+    maxTokens: Number(process.env.TRANSLATION_CHUNK_TOKENS) || 6000,
+    concurrency: Number(process.env.TRANSLATION_CONCURRENCY) || 3,
+    structureRepairThreshold: ratioFromEnv(process.env.STRUCTURE_REPAIR_THRESHOLD, 0.1),
+    protection: DEFAULT_PROTECTION,
+};
+
+// 요청의 protection 설정을 번역 옵션으로 바꿉니다. 사용자 패턴은 요청마다 새 제한 시간으로 샌드박스에서 실행합니다.
+export const protectionOptions = (protection: ProtectionSettings | undefined): Pick<TranslationOptions, 'protection' | 'patternMatcher'> =>
+    protection ? { protection, patternMatcher: createPatternMatcher(protection.patterns) } : {};
+
+// LLM 호출 재시도 설정: 호출당 최대 시도 횟수와, 클라이언트가 요청할 수 있는 가장 긴 작업 마감 시간
+const LLM_MAX_ATTEMPTS = Number(process.env.LLM_MAX_ATTEMPTS) || 4;
+export const MAX_DEADLINE_MS = Number(process.env.LLM_DEADLINE_MS) || 5 * 60 * 1000;
+
+// 호출 단위마다 재시도 래퍼를 새로 만들어, 그 단위에서 일어난 재시도만 집계합니다.
+// signal이 중단되면 진행 중인 모델 호출도 함께 끊습니다.
+export const createLlm = (deadlineAt?: number, signal?: AbortSignal): RetryingProvider => {
+    const serverDeadline = Date.now() + MAX_DEADLINE_MS;
+    return createRetryingProvider(provider, {
+        maxAttempts: LLM_MAX_ATTEMPTS,
+        deadlineAt: Math.min(deadlineAt ?? serverDeadline, serverDeadline),
+        signal,
+    });
+};
+
+// 모델별 토큰 단가(USD/100만 토큰). LLM_PRICES에 JSON으로 넣은 항목이 기본값을 덮어씁니다.
+// 예: {"gemini-2.5-flash": {"inputPerMillion": 0.3, "outputPerMillion": 2.5}}
+const parsePrices = (value: string | undefined): PriceTable => {
+    if (!value) return DEFAULT_PRICES;
+    try {
+        return { ...DEFAULT_PRICES, ...JSON.parse(value) };
+    } catch {
+        console.warn('LLM_PRICES is not valid JSON; using the default price table.');
+        return DEFAULT_PRICES;
+    }
+};
+
+export const PRICES = parsePrices(process.env.LLM_PRICES);
+
+export const responseMeta = (llm: RetryingProvider): ProxyResponseMeta => ({
+    cached: false,
+    ...llm.stats,
+    usage: summarizeUsage(llm.usage, PRICES),
+});
+
+export const CACHED_META: ProxyResponseMeta = { cached: true, retries: 0 };
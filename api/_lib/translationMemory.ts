@@ -0,0 +1,93 @@
+import crypto from 'node:crypto';
+import fsSync from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { createTranslationMemory, TranslationMemory, TranslationUnit } from '../../src/core/translationMemory';
+
+// 번역 메모리를 JSON 파일 하나에 저장합니다. 한 프로세스에서만 쓰는 자체 호스팅용입니다.
+const createFileTranslationMemory = (filePath: string, maxUnits?: number): TranslationMemory => {
+    let units: TranslationUnit[] = [];
+    try {
+        units = JSON.parse(fsSync.readFileSync(filePath, 'utf-8'));
+    } catch {
+        // 파일이 없거나 읽을 수 없으면 빈 메모리로 시작합니다.
+    }
+
+    // 번역이 끝날 때마다 저장하되, 쓰기는 차례로 하고 밀린 쓰기는 가장 최신 내용 하나로 합칩니다.
+    let pending: TranslationUnit[] | null = null;
+    let writing: Promise<void> | null = null;
+    const flush = async () => {
+        while (pending) {
+            const snapshot = pending;
+            pending = null;
+            try {
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                const tempFile = `${filePath}.${process.pid}.tmp`;
+                await fs.writeFile(tempFile, JSON.stringify(snapshot), 'utf-8');
+                await fs.rename(tempFile, filePath);
+            } catch (error) {
+                console.error('Failed to save the translation memory:', error);
+            }
+        }
+        writing = null;
+    };
+
+    return createTranslationMemory(units, {
+        maxUnits,
+        onChange: latest => {
+            pending = latest;
+            writing ??= flush();
+        },
+    });
+};
+
+// 클라이언트마다 따로 두는 번역 메모리. 다른 클라이언트의 원문과 번역이 참조 번역이나 TMX 내보내기로 새지 않게 합니다.
+export interface TranslationMemoryStore {
+    forClient(clientId: string): TranslationMemory;
+}
+
+// 파일 저장소에서 클라이언트별 파일 이름. 클라이언트 ID(토큰 이름이나 IP)를 그대로 쓰지 않고 해시합니다.
+const clientFilePath = (basePath: string, clientId: string): string => {
+    const { dir, name, ext } = path.parse(basePath);
+    const suffix = crypto.createHash('sha256').update(clientId).digest('hex').slice(0, 16);
+    return path.join(dir, `${name}.${suffix}${ext || '.json'}`);
+};
+
+// 메모리에 올려 두는 클라이언트 수. 넘으면 가장 오래 쓰지 않은 클라이언트의 메모리를 내립니다(파일 저장소면 파일은 남습니다).
+const createTranslationMemoryStore = (create: (clientId: string) => TranslationMemory, maxClients: number): TranslationMemoryStore => {
+    const memories = new Map<string, TranslationMemory>();
+    return {
+        forClient(clientId) {
+            const memory = memories.get(clientId) ?? create(clientId);
+            memories.delete(clientId);
+            memories.set(clientId, memory);
+            for (const key of memories.keys()) {
+                if (memories.size <= maxClients) break;
+                memories.delete(key);
+            }
+            return memory;
+        },
+    };
+};
+
+/**
+ * 환경 변수로 클라이언트별 번역 메모리를 구성합니다.
+ * - TRANSLATION_MEMORY=memory (기본값) | file | none
+ * - TRANSLATION_MEMORY_FILE: 파일 저장소 경로 (기본값 .cache/translation-memory.json). 클라이언트마다 이름 뒤에 해시를 붙인 파일을 씁니다.
+ * - TRANSLATION_MEMORY_MAX_UNITS: 클라이언트 하나가 보관할 최대 구간 수
+ * - TRANSLATION_MEMORY_MAX_CLIENTS: 메모리에 올려 두는 최대 클라이언트 수 (기본값 100)
+ */
+export const createTranslationMemoryStoreFromEnv = (env: NodeJS.ProcessEnv = process.env): TranslationMemoryStore | undefined => {
+    const maxUnits = Number(env.TRANSLATION_MEMORY_MAX_UNITS) || undefined;
+    const maxClients = Number(env.TRANSLATION_MEMORY_MAX_CLIENTS) || 100;
+    switch ((env.TRANSLATION_MEMORY || 'memory').toLowerCase()) {
+        case 'none':
+            return undefined;
+        case 'file': {
+            const basePath = env.TRANSLATION_MEMORY_FILE || '.cache/translation-memory.json';
+            return createTranslationMemoryStore(clientId => createFileTranslationMemory(clientFilePath(basePath, clientId), maxUnits), maxClients);
+        }
+        default:
+            return createTranslationMemoryStore(() => createTranslationMemory([], { maxUnits }), maxClients);
+    }
+};
@@ -0,0 +1,265 @@
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+import zlib from 'node:zlib';
+import type { LookupFunction } from 'node:net';
+import type { Readable } from 'node:stream';
+
+// 서버 측 페이지 가져오기 제한값
+const MAX_REDIRECTS = 5;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024; // 압축 해제 후 기준
+const REQUEST_TIMEOUT_MS = 15_000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinguaScope/1.0; +https://github.com/globebox0/LinguaScope)';
+
+export interface FetchedPage {
+    html: string;
+    finalUrl: string;
+    contentType: string;
+    status: number;
+}
+
+export class UrlFetchError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'UrlFetchError';
+    }
+}
+
+// --- SSRF 방지: 사설/루프백/링크 로컬 주소 차단 ---
+
+const isBlockedIPv4 = (ip: string): boolean => {
+    const [a, b, c] = ip.split('.').map(Number);
+    return (
+        a === 0 ||                                   // 0.0.0.0/8
+        a === 10 ||                                  // 10.0.0.0/8
+        a === 127 ||                                 // loopback
+        (a === 100 && b >= 64 && b <= 127) ||        // CGNAT 100.64.0.0/10
+        (a === 169 && b === 254) ||                  // link-local
+        (a === 172 && b >= 16 && b <= 31) ||         // 172.16.0.0/12
+        (a === 192 && b === 168) ||                  // 192.168.0.0/16
+        (a === 192 && b === 0 && c === 0) ||         // IETF protocol assignments
+        (a === 192 && b === 0 && c === 2) ||         // TEST-NET-1
+        (a === 192 && b === 88 && c === 99) ||       // 6to4 relay anycast
+        (a === 198 && (b === 18 || b === 19)) ||     // benchmarking
+        (a === 198 && b === 51 && c === 100) ||      // TEST-NET-2
+        (a === 203 && b === 0 && c === 113) ||       // TEST-NET-3
+        a >= 224                                     // multicast, reserved, broadcast
+    );
+};
+
+// IPv6 주소를 16비트 값 8개로 펼칩니다. 끝의 IPv4 표기(::ffff:1.2.3.4)와 '::' 생략을 풉니다.
+const ipv6Hextets = (ip: string): number[] => {
+    let address = ip;
+    const dotted = address.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(Number);
+        address = `${address.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+    const [head, tail] = address.split('::');
+    const parse = (part: string | undefined) => (part ? part.split(':').map(hextet => parseInt(hextet, 16)) : []);
+    const high = parse(head);
+    const low = parse(tail);
+    return tail === undefined ? high : [...high, ...new Array(8 - high.length - low.length).fill(0), ...low];
+};
+
+const ipv4Of = (high: number, low: number): string => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+
+const isBlockedIPv6 = (ip: string): boolean => {
+    const h = ipv6Hextets(ip.toLowerCase().split('%')[0]);
+    const prefixIsZero = (length: number) => h.slice(0, length).every(hextet => hextet === 0);
+
+    // 안에 IPv4 주소를 담는 형식은 그 IPv4 주소로 판단합니다.
+    // ::/96(IPv4-compatible, ::와 ::1 포함), ::ffff:0:0/96(IPv4-mapped), 64:ff9b::/96(NAT64)
+    if (prefixIsZero(6) || (prefixIsZero(5) && h[5] === 0xffff) || (h[0] === 0x64 && h[1] === 0xff9b && h.slice(2, 6).every(hextet => hextet === 0))) {
+        return isBlockedIPv4(ipv4Of(h[6], h[7]));
+    }
+    // 6to4 2002::/16
+    if (h[0] === 0x2002) return isBlockedIPv4(ipv4Of(h[1], h[2]));
+    // Teredo 2001::/32: 클라이언트 주소가 비트를 뒤집은 채 마지막 32비트에 들어 있습니다.
+    if (h[0] === 0x2001 && h[1] === 0) return isBlockedIPv4(ipv4Of(~h[6] & 0xffff, ~h[7] & 0xffff));
+
+    return (
+        (h[0] === 0x64 && h[1] === 0xff9b && h[2] === 1) ||  // local-use NAT64 64:ff9b:1::/48
+        (h[0] & 0xfe00) === 0xfc00 ||                          // unique local fc00::/7
+        (h[0] & 0xffc0) === 0xfe80 ||                          // link-local fe80::/10
+        (h[0] & 0xff00) === 0xff00                             // multicast
+    );
+};
+
+const isBlockedAddress = (ip: string): boolean => {
+    const family = net.isIP(ip);
+    if (family === 4) return isBlockedIPv4(ip);
+    if (family === 6) return isBlockedIPv6(ip);
+    return true;
+};
+
+// 실제로 연결할 주소를 검사하기 위해 소켓의 DNS 조회 단계에 끼어듭니다.
+// 미리 조회한 뒤 다시 연결하는 방식과 달리 DNS 리바인딩에도 안전합니다.
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) {
+            callback(err, '', 0);
+            return;
+        }
+        const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+        if (blocked || addresses.length === 0) {
+            callback(new UrlFetchError(`내부 네트워크 주소(${blocked?.address ?? hostname})로의 요청은 허용되지 않습니다.`, 403), '', 0);
+            return;
+        }
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+const parseTargetUrl = (rawUrl: string, base?: string): URL => {
+    let target: URL;
+    try {
+        target = new URL(rawUrl, base);
+    } catch {
+        throw new UrlFetchError('유효하지 않은 URL입니다.', 400);
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new UrlFetchError(`지원하지 않는 프로토콜입니다: ${target.protocol}`, 400);
+    }
+    if (target.username || target.password) {
+        throw new UrlFetchError('인증 정보가 포함된 URL은 허용되지 않습니다.', 400);
+    }
+    // IP 리터럴 호스트는 DNS 조회를 거치지 않으므로 여기서 직접 검사합니다.
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isBlockedAddress(host)) {
+        throw new UrlFetchError(`내부 네트워크 주소(${host})로의 요청은 허용되지 않습니다.`, 403);
+    }
+    return target;
+};
+
+const decodeBody = (buffer: Buffer, contentType: string): string => {
+    const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+    if (charset) {
+        try {
+            return new TextDecoder(charset).decode(buffer);
+        } catch {
+            // 알 수 없는 charset은 UTF-8로 처리합니다.
+        }
+    }
+    return new TextDecoder('utf-8').decode(buffer);
+};
+
+const decompress = (stream: Readable, encoding: string | undefined): Readable => {
+    switch ((encoding || '').toLowerCase()) {
+        case 'gzip':
+        case 'x-gzip':
+            return stream.pipe(zlib.createGunzip());
+        case 'deflate':
+            return stream.pipe(zlib.createInflate());
+        case 'br':
+            return stream.pipe(zlib.createBrotliDecompress());
+        default:
+            return stream;
+    }
+};
+
+interface HopResult {
+    status: number;
+    location?: string;
+    contentType: string;
+    body?: Buffer;
+}
+
+const requestOnce = (target: URL, signal: AbortSignal): Promise<HopResult> => {
+    return new Promise((resolve, reject) => {
+        const client = target.protocol === 'https:' ? https : http;
+        const req = client.get(target, {
+            lookup: safeLookup,
+            signal,
+            headers: {
+                'User-Agent': USER_AGENT,
+                'Accept': 'text/html,application/xhtml+xml;q=0.9,text/plain;q=0.8,*/*;q=0.5',
+                'Accept-Encoding': 'gzip, deflate, br',
+            },
+        }, (res) => {
+            const status = res.statusCode ?? 0;
+            const contentType = String(res.headers['content-type'] || '');
+
+            if (status >= 300 && status < 400 && res.headers.location) {
+                res.resume();
+                resolve({ status, location: res.headers.location, contentType });
+                return;
+            }
+
+            const declaredLength = Number(res.headers['content-length']);
+            if (declaredLength > MAX_RESPONSE_BYTES) {
+                res.destroy();
+                reject(new UrlFetchError('페이지 크기가 허용된 최대 크기를 초과했습니다.', 413));
+                return;
+            }
+
+            const body = decompress(res, res.headers['content-encoding']);
+            const chunks: Buffer[] = [];
+            let received = 0;
+            body.on('data', (chunk: Buffer) => {
+                received += chunk.length;
+                if (received > MAX_RESPONSE_BYTES) {
+                    res.destroy();
+                    body.destroy();
+                    reject(new UrlFetchError('페이지 크기가 허용된 최대 크기를 초과했습니다.', 413));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            body.on('end', () => resolve({ status, contentType, body: Buffer.concat(chunks) }));
+            body.on('error', reject);
+        });
+        req.on('error', reject);
+    });
+};
+
+/**
+ * 서버에서 URL의 HTML을 가져옵니다.
+ * 리다이렉트는 매 단계마다 주소를 다시 검증하며 최대 MAX_REDIRECTS번까지 따라갑니다.
+ * signal이 중단되면 요청을 끊고 499(요청 취소) UrlFetchError를 던집니다.
+ */
+export const fetchPage = async (rawUrl: string, signal?: AbortSignal): Promise<FetchedPage> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const requestSignal = signal ? AbortSignal.any([controller.signal, signal]) : controller.signal;
+
+    try {
+        let target = parseTargetUrl(rawUrl);
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            const result = await requestOnce(target, requestSignal);
+
+            if (result.location) {
+                target = parseTargetUrl(result.location, target.href);
+                continue;
+            }
+
+            const contentType = result.contentType;
+            if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+                throw new UrlFetchError(`HTML 문서가 아닙니다. (${contentType})`, 415);
+            }
+
+            return {
+                html: decodeBody(result.body ?? Buffer.alloc(0), contentType),
+                finalUrl: target.href,
+                contentType,
+                status: result.status,
+            };
+        }
+        throw new UrlFetchError(`리다이렉트가 너무 많습니다. (최대 ${MAX_REDIRECTS}회)`, 502);
+    } catch (error) {
+        if (error instanceof UrlFetchError) throw error;
+        if (signal?.aborted) {
+            throw new UrlFetchError('페이지 요청이 취소되었습니다.', 499);
+        }
+        if (controller.signal.aborted) {
+            throw new UrlFetchError(`페이지 응답 시간이 초과되었습니다. (${REQUEST_TIMEOUT_MS / 1000}초)`, 504);
+        }
+        throw new UrlFetchError(`페이지를 가져오지 못했습니다: ${(error as Error).message}`, 502);
+    } finally {
+        clearTimeout(timer);
+    }
+};
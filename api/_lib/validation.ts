@@ -0,0 +1,396 @@
+import {
+    AI_MODELS, AiModel, AnalysisOutput, AUDIENCES, DEFAULT_TARGET_LANGUAGE, FIDELITIES, FORMALITIES, GlossaryEntry, JobArtifacts, JobInput,
+    KOREAN_REGISTERS, LanguageDetection, PROTECTED_CATEGORIES, ProtectedCategory, ProtectionSettings, ProxyAction, TARGET_LANGUAGES, TargetLanguage,
+    TranslationStyle,
+} from '../../src/types';
+import { compileProtectionPattern } from '../../src/core/protection';
+import { ApiError } from './errors';
+
+// 본문 HTML의 최대 길이(문자 수)
+const MAX_CONTENT_CHARS = Number(process.env.MAX_CONTENT_CHARS) || 500_000;
+const MAX_URL_LENGTH = 2048;
+// 용어집 항목 수와 용어 하나의 최대 길이
+const MAX_GLOSSARY_ENTRIES = Number(process.env.MAX_GLOSSARY_ENTRIES) || 1000;
+const MAX_TERM_CHARS = 200;
+// 사용자 정의 보호 패턴의 개수와 길이. 패턴은 본문 전체에 실행되므로 작게 제한합니다.
+const MAX_PROTECTION_PATTERNS = 20;
+const MAX_PATTERN_CHARS = 200;
+// 블록을 다시 번역할 때 사용자가 덧붙이는 지시의 최대 길이
+const MAX_INSTRUCTION_CHARS = 500;
+
+export interface ActionPayloads {
+    fetchUrl: { url: string };
+    detectLanguage: { contentHtml: string };
+    performAnalysis: { contentHtml: string; model: AiModel };
+    translateAnalysis: { analysis: AnalysisOutput; model: AiModel; targetLanguage: TargetLanguage; glossary?: GlossaryEntry[]; style?: TranslationStyle };
+    performTranslation: TranslationPayload;
+    retranslateBlock: TranslationPayload & { instruction?: string };
+    enhanceReadability: { contentHtml: string; targetLanguage: TargetLanguage };
+}
+
+interface TranslationPayload {
+    contentHtml: string;
+    model: AiModel;
+    targetLanguage: TargetLanguage;
+    glossary?: GlossaryEntry[];
+    protection?: ProtectionSettings;
+    style?: TranslationStyle;
+}
+
+export type ValidatedRequest = {
+    [A in ProxyAction]: { action: A; payload: ActionPayloads[A] };
+}[ProxyAction] & {
+    // 캐시를 건너뛰고 항상 새로 생성합니다. 결과는 다시 캐시에 저장됩니다.
+    bypassCache: boolean;
+    // 작업 전체의 마감 시각(epoch ms). 이 시각이 지나면 LLM 호출을 더 재시도하지 않습니다.
+    deadlineAt?: number;
+};
+
+type Payload = Record<string, unknown>;
+
+const invalid = (message: string) => new ApiError('INVALID_REQUEST', message);
+
+const requireString = (payload: Payload, key: string, maxLength: number): string => {
+    const value = payload[key];
+    if (typeof value !== 'string') {
+        throw invalid(`'${key}' must be a string.`);
+    }
+    if (!value.trim()) {
+        throw invalid(`'${key}' must not be empty.`);
+    }
+    if (value.length > maxLength) {
+        throw new ApiError('PAYLOAD_TOO_LARGE', `'${key}' is ${value.length.toLocaleString()} characters long; the limit is ${maxLength.toLocaleString()}.`);
+    }
+    return value;
+};
+
+const requireStringArray = (payload: Payload, key: string): string[] => {
+    const value = payload[key];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw invalid(`'${key}' must be an array of strings.`);
+    }
+    return value;
+};
+
+const requireModel = (payload: Payload): AiModel => {
+    const value = payload.model;
+    if (!AI_MODELS.includes(value as AiModel)) {
+        throw invalid(`'model' must be one of: ${AI_MODELS.join(', ')}.`);
+    }
+    return value as AiModel;
+};
+
+// 예전 클라이언트와의 호환을 위해 생략하면 한국어로 번역합니다.
+const optionalTargetLanguage = (payload: Payload): TargetLanguage => {
+    const value = payload.targetLanguage ?? DEFAULT_TARGET_LANGUAGE;
+    if (!TARGET_LANGUAGES.includes(value as TargetLanguage)) {
+        throw invalid(`'targetLanguage' must be one of: ${TARGET_LANGUAGES.join(', ')}.`);
+    }
+    return value as TargetLanguage;
+};
+
+const requireGlossaryEntry = (value: unknown, key: string): GlossaryEntry => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw invalid(`'${key}' must be an object.`);
+    }
+    const fields = value as Payload;
+    if (typeof fields.caseSensitive !== 'boolean' || typeof fields.doNotTranslate !== 'boolean') {
+        throw invalid(`'${key}.caseSensitive' and '${key}.doNotTranslate' must be booleans.`);
+    }
+    if (fields.targetLanguage !== undefined && !TARGET_LANGUAGES.includes(fields.targetLanguage as TargetLanguage)) {
+        throw invalid(`'${key}.targetLanguage' must be one of: ${TARGET_LANGUAGES.join(', ')}.`);
+    }
+    // 번역하지 않는 용어는 원문을 그대로 쓰므로 대상 용어가 비어 있어도 됩니다.
+    const target = fields.doNotTranslate && !fields.target ? '' : requireString(fields, 'target', MAX_TERM_CHARS);
+    return {
+        id: requireString(fields, 'id', MAX_TERM_CHARS),
+        source: requireString(fields, 'source', MAX_TERM_CHARS),
+        target,
+        caseSensitive: fields.caseSensitive,
+        doNotTranslate: fields.doNotTranslate,
+        ...(fields.targetLanguage !== undefined && { targetLanguage: fields.targetLanguage as TargetLanguage }),
+    };
+};
+
+// 생략하거나 빈 목록이면 undefined를 반환해, 용어집 없이 보낸 요청과 캐시 키가 같아지게 합니다.
+const optionalGlossary = (payload: Payload): GlossaryEntry[] | undefined => {
+    const value = payload.glossary;
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+        throw invalid(`'glossary' must be an array.`);
+    }
+    if (value.length > MAX_GLOSSARY_ENTRIES) {
+        throw new ApiError('PAYLOAD_TOO_LARGE', `'glossary' has ${value.length.toLocaleString()} entries; the limit is ${MAX_GLOSSARY_ENTRIES.toLocaleString()}.`);
+    }
+    return value.length > 0 ? value.map((entry, index) => requireGlossaryEntry(entry, `glossary[${index}]`)) : undefined;
+};
+
+// 생략하면 undefined를 반환하고, 서버 기본값(모든 범주 보호)이 쓰입니다.
+const optionalProtection = (payload: Payload): ProtectionSettings | undefined => {
+    const value = payload.protection;
+    if (value === undefined) return undefined;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw invalid(`'protection' must be an object.`);
+    }
+    const fields = value as Payload;
+    const categories = requireStringArray(fields, 'categories');
+    const unknown = categories.find(category => !PROTECTED_CATEGORIES.includes(category as ProtectedCategory));
+    if (unknown !== undefined) {
+        throw invalid(`'protection.categories' may only contain: ${PROTECTED_CATEGORIES.join(', ')}; got '${unknown}'.`);
+    }
+    const patterns = requireStringArray(fields, 'patterns');
+    if (patterns.length > MAX_PROTECTION_PATTERNS) {
+        throw invalid(`'protection.patterns' has ${patterns.length} patterns; the limit is ${MAX_PROTECTION_PATTERNS}.`);
+    }
+    patterns.forEach((pattern, index) => {
+        if (!pattern || pattern.length > MAX_PATTERN_CHARS) {
+            throw invalid(`'protection.patterns[${index}]' must be 1 to ${MAX_PATTERN_CHARS} characters long.`);
+        }
+        try {
+            compileProtectionPattern(pattern);
+        } catch (error) {
+            throw invalid(`'protection.patterns[${index}]' is not a valid regular expression: ${(error as Error).message}`);
+        }
+    });
+    return { categories: [...new Set(categories)] as ProtectedCategory[], patterns };
+};
+
+const optionalEnum = <T extends string>(fields: Payload, key: string, values: readonly T[]): T | undefined => {
+    const value = fields[key];
+    if (value === undefined) return undefined;
+    if (!values.includes(value as T)) {
+        throw invalid(`'style.${key}' must be one of: ${values.join(', ')}.`);
+    }
+    return value as T;
+};
+
+// 모든 항목이 비어 있으면 undefined를 반환해, 스타일 없이 보낸 요청과 캐시 키가 같아지게 합니다.
+const optionalStyle = (payload: Payload): TranslationStyle | undefined => {
+    const value = payload.style;
+    if (value === undefined) return undefined;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw invalid(`'style' must be an object.`);
+    }
+    const fields = value as Payload;
+    const style: TranslationStyle = {
+        register: optionalEnum(fields, 'register', KOREAN_REGISTERS),
+        formality: optionalEnum(fields, 'formality', FORMALITIES),
+        audience: optionalEnum(fields, 'audience', AUDIENCES),
+        fidelity: optionalEnum(fields, 'fidelity', FIDELITIES),
+    };
+    const entries = Object.entries(style).filter(([, field]) => field !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// 공백뿐이면 undefined를 반환해, 지시 없이 보낸 요청과 캐시 키가 같아지게 합니다.
+const optionalInstruction = (payload: Payload): string | undefined => {
+    const value = payload.instruction;
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') {
+        throw invalid(`'instruction' must be a string.`);
+    }
+    if (value.length > MAX_INSTRUCTION_CHARS) {
+        throw invalid(`'instruction' is ${value.length} characters long; the limit is ${MAX_INSTRUCTION_CHARS}.`);
+    }
+    return value.trim() || undefined;
+};
+
+const requireAnalysis = (payload: Payload, key = 'analysis'): AnalysisOutput => {
+    const analysis = payload[key];
+    if (!analysis || typeof analysis !== 'object' || Array.isArray(analysis)) {
+        throw invalid(`'${key}' must be an object.`);
+    }
+    const fields = analysis as Payload;
+    return {
+        title: requireString(fields, 'title', MAX_CONTENT_CHARS),
+        oneLineSummary: requireString(fields, 'oneLineSummary', MAX_CONTENT_CHARS),
+        keyPoints: requireStringArray(fields, 'keyPoints'),
+        keyPlayers: requireStringArray(fields, 'keyPlayers'),
+        keywords: requireStringArray(fields, 'keywords'),
+    };
+};
+
+type ParsedPayload = Omit<ValidatedRequest, 'bypassCache' | 'deadlineAt'>;
+
+const parsePayload = (action: unknown, payload: Payload): ParsedPayload | null => {
+    switch (action) {
+        case 'fetchUrl':
+            return { action, payload: { url: requireString(payload, 'url', MAX_URL_LENGTH) } };
+        case 'detectLanguage':
+            return { action, payload: { contentHtml: requireString(payload, 'contentHtml', MAX_CONTENT_CHARS) } };
+        case 'enhanceReadability':
+            return {
+                action,
+                payload: { contentHtml: requireString(payload, 'contentHtml', MAX_CONTENT_CHARS), targetLanguage: optionalTargetLanguage(payload) },
+            };
+        case 'performAnalysis':
+            return {
+                action,
+                payload: { contentHtml: requireString(payload, 'contentHtml', MAX_CONTENT_CHARS), model: requireModel(payload) },
+            };
+        case 'performTranslation':
+            return {
+                action,
+                payload: {
+                    contentHtml: requireString(payload, 'contentHtml', MAX_CONTENT_CHARS),
+                    model: requireModel(payload),
+                    targetLanguage: optionalTargetLanguage(payload),
+                    glossary: optionalGlossary(payload),
+                    protection: optionalProtection(payload),
+                    style: optionalStyle(payload),
+                },
+            };
+        case 'retranslateBlock':
+            return {
+                action,
+                payload: {
+                    contentHtml: requireString(payload, 'contentHtml', MAX_CONTENT_CHARS),
+                    model: requireModel(payload),
+                    targetLanguage: optionalTargetLanguage(payload),
+                    glossary: optionalGlossary(payload),
+                    protection: optionalProtection(payload),
+                    style: optionalStyle(payload),
+                    instruction: optionalInstruction(payload),
+                },
+            };
+        case 'translateAnalysis':
+            return {
+                action,
+                payload: {
+                    analysis: requireAnalysis(payload),
+                    model: requireModel(payload),
+                    targetLanguage: optionalTargetLanguage(payload),
+                    glossary: optionalGlossary(payload),
+                    style: optionalStyle(payload),
+                },
+            };
+        default:
+            return null;
+    }
+};
+
+/**
+ * 요청 본문을 검사해 action별로 타입이 확정된 payload를 반환합니다.
+ * 형식이 잘못되면 INVALID_REQUEST, 너무 크면 PAYLOAD_TOO_LARGE ApiError를 던집니다.
+ */
+export const validateRequest = (body: unknown): ValidatedRequest => {
+    if (!body || typeof body !== 'object') {
+        throw invalid('Request body must be a JSON object.');
+    }
+    const { action, payload, bypassCache = false, deadlineAt } = body as {
+        action?: unknown;
+        payload?: unknown;
+        bypassCache?: unknown;
+        deadlineAt?: unknown;
+    };
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        throw invalid(`'payload' must be an object.`);
+    }
+    if (typeof bypassCache !== 'boolean') {
+        throw invalid(`'bypassCache' must be a boolean.`);
+    }
+    if (deadlineAt !== undefined && (typeof deadlineAt !== 'number' || !Number.isFinite(deadlineAt))) {
+        throw invalid(`'deadlineAt' must be a timestamp in milliseconds.`);
+    }
+
+    let request: ParsedPayload | null;
+    try {
+        request = parsePayload(action, payload as Payload);
+    } catch (error) {
+        if (error instanceof ApiError) error.stage = action as ProxyAction;
+        throw error;
+    }
+    if (!request) {
+        throw invalid(`Invalid action: '${String(action)}'`);
+    }
+    return { ...request, bypassCache, deadlineAt } as ValidatedRequest;
+};
+
+export interface ValidatedJobRequest {
+    input: JobInput;
+    bypassCache: boolean;
+    // 실패한 이전 작업에서 끝난 단계의 결과. 이 단계들은 다시 실행하지 않습니다.
+    resume: JobArtifacts;
+}
+
+const LANGUAGE_CODE = /^([a-z]{2}|und)$/;
+const DETECTION_SOURCES: LanguageDetection['source'][] = ['local', 'llm', 'user'];
+const MAX_CANDIDATES = 20;
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+// [{ language, <ratioKey> }] 형태의 목록. 언어 코드와 0~1 사이의 값만 받습니다.
+const requireLanguageShares = <K extends string>(value: unknown, key: string, ratioKey: K): ({ language: string } & Record<K, number>)[] => {
+    const valid = Array.isArray(value) && value.length <= MAX_CANDIDATES && value.every(item =>
+        item && typeof item === 'object' && LANGUAGE_CODE.test(String(item.language)) && isFraction(item[ratioKey]));
+    if (!valid) {
+        throw invalid(`'${key}' must be a list of at most ${MAX_CANDIDATES} language codes with a '${ratioKey}' between 0 and 1.`);
+    }
+    return (value as Payload[]).map(item => ({ language: item.language, [ratioKey]: item[ratioKey] }) as { language: string } & Record<K, number>);
+};
+
+const requireLanguageDetection = (payload: Payload, key: string): LanguageDetection => {
+    const detection = payload[key];
+    if (!detection || typeof detection !== 'object' || Array.isArray(detection)) {
+        throw invalid(`'${key}' must be an object.`);
+    }
+    const fields = detection as Payload;
+    if (typeof fields.language !== 'string' || !LANGUAGE_CODE.test(fields.language)) {
+        throw invalid(`'${key}.language' must be a two-letter ISO 639-1 code.`);
+    }
+    if (!isFraction(fields.confidence)) {
+        throw invalid(`'${key}.confidence' must be a number between 0 and 1.`);
+    }
+    if (!DETECTION_SOURCES.includes(fields.source as LanguageDetection['source'])) {
+        throw invalid(`'${key}.source' must be one of: ${DETECTION_SOURCES.join(', ')}.`);
+    }
+    return {
+        language: fields.language,
+        confidence: fields.confidence,
+        candidates: requireLanguageShares(fields.candidates, `${key}.candidates`, 'confidence'),
+        ...(fields.mixed !== undefined && {
+            mixed: requireLanguageShares(fields.mixed, `${key}.mixed`, 'share'),
+        }),
+        source: fields.source as LanguageDetection['source'],
+    };
+};
+
+const parseResume = (value: unknown): JobArtifacts => {
+    if (value === undefined) return {};
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw invalid(`'resume' must be an object.`);
+    }
+    const fields = value as Payload;
+    const resume: JobArtifacts = {};
+    if (fields.content !== undefined) resume.content = requireString(fields, 'content', MAX_CONTENT_CHARS);
+    if (fields.language !== undefined) resume.language = requireLanguageDetection(fields, 'language');
+    if (fields.analysis !== undefined) resume.analysis = requireAnalysis(fields);
+    if (fields.translatedAnalysis !== undefined) resume.translatedAnalysis = requireAnalysis(fields, 'translatedAnalysis');
+    if (fields.translation !== undefined) resume.translation = requireString(fields, 'translation', MAX_CONTENT_CHARS * 2);
+    return resume;
+};
+
+// POST /api/jobs 본문을 검사합니다. url과 text 중 정확히 하나가 있어야 합니다.
+export const validateJobRequest = (body: unknown): ValidatedJobRequest => {
+    if (!body || typeof body !== 'object') {
+        throw invalid('Request body must be a JSON object.');
+    }
+    const fields = body as Payload;
+    const { bypassCache = false } = fields;
+    if (typeof bypassCache !== 'boolean') {
+        throw invalid(`'bypassCache' must be a boolean.`);
+    }
+    if ((fields.url === undefined) === (fields.text === undefined)) {
+        throw invalid(`Exactly one of 'url' or 'text' must be given.`);
+    }
+    const model = requireModel(fields);
+    const targetLanguage = optionalTargetLanguage(fields);
+    const glossary = optionalGlossary(fields);
+    const protection = optionalProtection(fields);
+    const style = optionalStyle(fields);
+    const options = { model, targetLanguage, ...(glossary && { glossary }), ...(protection && { protection }), ...(style && { style }) };
+    const input: JobInput = fields.url !== undefined
+        ? { url: requireString(fields, 'url', MAX_URL_LENGTH), ...options }
+        : { text: requireString(fields, 'text', MAX_CONTENT_CHARS), ...options };
+    return { input, bypassCache, resume: parseResume(fields.resume) };
+};
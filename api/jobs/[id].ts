@@ -0,0 +1,31 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApiError, sendError, toApiError } from '../_lib/errors';
+import { authenticate } from '../_lib/auth';
+import { cancelJob, getJob } from '../_lib/jobs';
+import type { ClientIdentity } from '../_lib/rateLimit';
+
+// GET /api/jobs/:id — 작업 상태와 결과를 조회합니다.
+// DELETE /api/jobs/:id — 실행 중인 작업을 취소합니다.
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse
+) {
+    if (req.method !== 'GET' && req.method !== 'DELETE') {
+        return sendError(res, new ApiError('METHOD_NOT_ALLOWED', 'Method Not Allowed'));
+    }
+
+    let client: ClientIdentity;
+    try {
+        client = authenticate(req);
+    } catch (error) {
+        return sendError(res, toApiError(error));
+    }
+
+    // 다른 클라이언트가 만든 작업도 찾지 못한 것으로 응답합니다.
+    const id = String(req.query.id ?? '');
+    const job = req.method === 'DELETE' ? cancelJob(id, client) : getJob(id, client);
+    if (!job) {
+        return sendError(res, new ApiError('NOT_FOUND', `Job '${id}' was not found.`));
+    }
+    return res.status(200).json({ job });
+}
@@ -0,0 +1,28 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApiError, sendError, toApiError } from '../_lib/errors';
+import { validateJobRequest } from '../_lib/validation';
+import { createJob } from '../_lib/jobs';
+import { authenticate } from '../_lib/auth';
+import { limiter, translationMemoryFor } from '../_lib/runtime';
+
+// POST /api/jobs — URL 또는 텍스트로 작업을 만들고 202와 함께 작업 ID를 돌려줍니다.
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse
+) {
+    if (req.method !== 'POST') {
+        return sendError(res, new ApiError('METHOD_NOT_ALLOWED', 'Method Not Allowed'));
+    }
+
+    try {
+        const client = authenticate(req);
+        await limiter.consumeRequest(client);
+        const { input, bypassCache, resume } = validateJobRequest(req.body);
+        // URL 작업은 본문을 가져온 뒤에야 길이를 알 수 있으므로 작업 안에서 집계합니다.
+        if (input.text !== undefined) await limiter.consumeChars(client, input.text.length);
+        const job = createJob(input, client, bypassCache, chars => limiter.consumeChars(client, chars), resume, translationMemoryFor(client));
+        return res.status(202).json({ job });
+    } catch (error) {
+        return sendError(res, toApiError(error));
+    }
+}
@@ -1,166 +1,100 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI, Type } from "@google/genai";
-
-// Vercel 환경 변수에서 API 키를 안전하게 가져옵니다.
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-// 요청 본문의 타입을 정의합니다.
-interface ApiRequestBody {
-    action: 'detectLanguage' | 'performAnalysis' | 'translateAnalysis' | 'performTranslation' | 'enhanceReadability';
-    payload: any;
-}
+import { fetchPage } from './_lib/urlFetcher';
+import { ApiError, sendError, toApiError } from './_lib/errors';
+import { validateRequest, ValidatedRequest } from './_lib/validation';
+import { authenticate, clientKeyOf } from './_lib/auth';
+import { cache, createLlm, limiter, protectionOptions, responseMeta, translationMemoryFor, CACHED_META, TRANSLATION_OPTIONS } from './_lib/runtime';
+import type { ClientIdentity } from './_lib/rateLimit';
+import {
+    detectLanguage,
+    performAnalysis,
+    translateAnalysis,
+    performTranslation,
+    retranslateBlock,
+    enhanceReadability,
+} from '../src/core/pipeline';
 
 export default async function handler(
     req: VercelRequest,
     res: VercelResponse
 ) {
     if (req.method !== 'POST') {
-        return res.status(405).json({ error: 'Method Not Allowed' });
+        return sendError(res, new ApiError('METHOD_NOT_ALLOWED', 'Method Not Allowed'));
+    }
+
+    let request: ValidatedRequest;
+    let client: ClientIdentity;
+    try {
+        client = authenticate(req);
+        await limiter.consumeRequest(client);
+        request = validateRequest(req.body);
+        // 캐시된 응답도 같은 요청이 다시 들어온 것이므로 처리 문자 수에 포함합니다.
+        await limiter.consumeChars(client, JSON.stringify(request.payload).length);
+    } catch (error) {
+        return sendError(res, toApiError(error));
     }
 
-    const { action, payload } = req.body as ApiRequestBody;
+    // 응답을 다 보내기 전에 클라이언트가 연결을 끊으면(요청 취소) 페이지 요청과 모델 호출도 멈춥니다.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+    const llm = createLlm(request.deadlineAt, controller.signal);
+    // 번역 메모리를 쓰는 번역은 클라이언트마다 결과가 다를 수 있으므로, 캐시도 클라이언트별로 나눕니다.
+    const memory = request.action === 'performTranslation' ? translationMemoryFor(client) : undefined;
+    const cacheScope = memory ? clientKeyOf(client) : undefined;
 
     try {
+        if (cache && !request.bypassCache) {
+            const cached = await cache.get(request.action, request.payload, cacheScope);
+            if (cached !== undefined) {
+                return res.status(200).json({ result: cached, meta: CACHED_META });
+            }
+        }
+
         let result;
-        switch (action) {
+        switch (request.action) {
+            case 'fetchUrl':
+                result = await fetchPage(request.payload.url, controller.signal);
+                break;
             case 'detectLanguage':
-                result = await detectLanguage(payload.contentHtml);
+                result = await detectLanguage(llm, request.payload.contentHtml);
                 break;
             case 'performAnalysis':
-                result = await performAnalysis(payload.contentHtml, payload.model);
+                result = await performAnalysis(llm, request.payload.contentHtml, request.payload.model);
                 break;
             case 'translateAnalysis':
-                 result = await translateAnalysis(payload.analysis, payload.model);
+                result = await translateAnalysis(
+                    llm, request.payload.analysis, request.payload.model, request.payload.targetLanguage, request.payload.glossary, request.payload.style,
+                );
                 break;
             case 'performTranslation':
-                result = await performTranslation(payload.contentHtml, payload.model);
+                result = await performTranslation(llm, request.payload.contentHtml, request.payload.model, request.payload.targetLanguage, {
+                    ...TRANSLATION_OPTIONS,
+                    memory,
+                    glossary: request.payload.glossary,
+                    ...protectionOptions(request.payload.protection),
+                    style: request.payload.style,
+                });
+                break;
+            case 'retranslateBlock':
+                result = await retranslateBlock(llm, request.payload.contentHtml, request.payload.model, request.payload.targetLanguage, {
+                    ...TRANSLATION_OPTIONS,
+                    glossary: request.payload.glossary,
+                    ...protectionOptions(request.payload.protection),
+                    style: request.payload.style,
+                    instruction: request.payload.instruction,
+                });
                 break;
             case 'enhanceReadability':
-                result = await enhanceReadability(payload.contentHtml);
+                result = await enhanceReadability(llm, request.payload.contentHtml, request.payload.targetLanguage);
                 break;
-            default:
-                return res.status(400).json({ error: 'Invalid action' });
         }
-        return res.status(200).json({ result });
-    } catch (error: any) {
-        console.error(`Error in action '${action}':`, error);
-        return res.status(500).json({ error: error.message || 'An internal server error occurred.' });
+        await cache?.set(request.action, request.payload, result, cacheScope);
+        return res.status(200).json({ result, meta: responseMeta(llm) });
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(`Error in action '${request.action}':`, error);
+        return sendError(res, toApiError(error, request.action, llm.stats));
     }
 }
-
-// --- 실제 로직 함수들 (기존 apiService.ts에서 이동 및 수정) ---
-
-const getModelConfig = (model: 'gemini-2.5-flash' | 'gemini-2.5-flash-lite') => {
-    if (model === 'gemini-2.5-flash-lite') {
-        return {
-            modelName: 'gemini-2.5-flash',
-            config: { thinkingConfig: { thinkingBudget: 0 } }
-        };
-    }
-    return {
-        modelName: 'gemini-2.5-flash',
-        config: {}
-    };
-};
-
-const stripMarkdown = (text: string): string => {
-    const textToClean = text.trim();
-    const codeBlockRegex = /^```(?:\w+)?\s*([\s\S]*?)\s*```$/;
-    const match = textToClean.match(codeBlockRegex);
-    return (match && match[1]) ? match[1].trim() : textToClean;
-};
-
-
-const detectLanguage = async (contentHtml: string): Promise<string> => {
-    const textContent = contentHtml.replace(/<[^>]*>/g, '').trim().substring(0, 1000);
-    if (!textContent) return 'ko';
-
-    const prompt = `Detect the predominant language of the following text. Respond with ONLY the two-letter ISO 639-1 language code. Text: --- ${textContent} ---`;
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: { thinkingConfig: { thinkingBudget: 0 } }
-    });
-    const langCode = response.text.trim().toLowerCase();
-    return /^[a-z]{2}$/.test(langCode) ? langCode : 'en';
-};
-
-const analysisSchema = {
-  type: Type.OBJECT,
-  properties: {
-    title: { type: Type.STRING },
-    oneLineSummary: { type: Type.STRING },
-    keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-    keyPlayers: { type: Type.ARRAY, items: { type: Type.STRING } },
-    keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-  },
-  required: ['title', 'oneLineSummary', 'keyPoints', 'keyPlayers', 'keywords']
-};
-
-const performAnalysis = async (contentHtml: string, model: any) => {
-    const { modelName, config: modelConfig } = getModelConfig(model);
-    const prompt = `Analyze the following HTML content. Provide the title, oneLineSummary, keyPoints, keyPlayers, and keywords in the original language of the text. Return a single, valid JSON object that matches the provided schema. HTML CONTENT: --- ${contentHtml} ---`;
-    
-    const response = await ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: { responseMimeType: "application/json", responseSchema: analysisSchema, ...modelConfig },
-    });
-    return JSON.parse(stripMarkdown(response.text));
-};
-
-const translatedAnalysisSchema = {
-    type: Type.OBJECT,
-    properties: {
-        oneLineSummary: { type: Type.STRING },
-        keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-        keyPlayers: { type: Type.ARRAY, items: { type: Type.STRING } },
-        keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-    },
-    required: ['oneLineSummary', 'keyPoints', 'keyPlayers', 'keywords']
-};
-
-const translateAnalysis = async (analysis: any, model: any) => {
-    const { modelName, config: modelConfig } = getModelConfig(model);
-    const contentToTranslate = { oneLineSummary: analysis.oneLineSummary, keyPoints: analysis.keyPoints, keyPlayers: analysis.keyPlayers, keywords: analysis.keywords };
-    const prompt = `Translate the values in the following JSON object into Korean. Maintain the exact same JSON structure and keys. JSON TO TRANSLATE: --- ${JSON.stringify(contentToTranslate, null, 2)} ---`;
-
-    const response = await ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: { responseMimeType: "application/json", responseSchema: translatedAnalysisSchema, ...modelConfig },
-    });
-
-    const translatedContent = JSON.parse(stripMarkdown(response.text));
-    return { ...analysis, ...translatedContent };
-};
-
-const performTranslation = async (contentHtml: string, model: any) => {
-    const { modelName, config: modelConfig } = getModelConfig(model);
-    const systemInstruction = `You are an expert translator. Translate the user-provided HTML content into Korean. Preserve the entire HTML structure and attributes exactly. Your response MUST BE ONLY the raw, translated HTML string.`;
-    const response = await ai.models.generateContent({
-        model: modelName,
-        contents: contentHtml,
-        config: { systemInstruction: systemInstruction, ...modelConfig },
-    });
-    return stripMarkdown(response.text);
-};
-
-const enhanceReadability = async (contentHtml: string) => {
-    const prompt = `You are an expert editor. Reformat the following Korean HTML content for better readability (add headings, lists, bold text, break paragraphs). Do not change the core meaning or language. Your response must be a single block of valid HTML. HTML TO ENHANCE: --- ${contentHtml} ---`;
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-    });
-    const enhancedHtml = stripMarkdown(response.text);
-    if (!enhancedHtml || !enhancedHtml.startsWith('<')) {
-        throw new Error("AI did not return a valid HTML response.");
-    }
-    return enhancedHtml;
-};
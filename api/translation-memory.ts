@@ -0,0 +1,29 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApiError, sendError, toApiError } from './_lib/errors';
+import { authenticate } from './_lib/auth';
+import { translationMemoryFor } from './_lib/runtime';
+import { formatTmx, TranslationMemory } from '../src/core/translationMemory';
+
+// GET /api/translation-memory — 요청한 클라이언트의 번역 메모리를 TMX 파일로 내려받습니다.
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse
+) {
+    if (req.method !== 'GET') {
+        return sendError(res, new ApiError('METHOD_NOT_ALLOWED', 'Method Not Allowed'));
+    }
+
+    let translationMemory: TranslationMemory | undefined;
+    try {
+        translationMemory = translationMemoryFor(authenticate(req));
+    } catch (error) {
+        return sendError(res, toApiError(error));
+    }
+
+    if (!translationMemory) {
+        return sendError(res, new ApiError('NOT_FOUND', 'The translation memory is disabled on this server.'));
+    }
+    res.setHeader('Content-Type', 'application/x-tmx+xml; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="translation-memory.tmx"');
+    return res.status(200).send(formatTmx(translationMemory.units()));
+}
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { JobResult } from '../types';
+import { JobResult, TARGET_LANGUAGE } from '../types';
 import { ClockIcon, LinkIcon, CopyIcon, WandIcon } from './icons';
 import { enhanceReadability } from '../services/apiService';
 import { LoadingSpinner } from './LoadingSpinner';
@@ -230,7 +230,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
   
     try {
       // 3. Make the API call using the current editable content
-      const enhancedHtml = await enhanceReadability(editableContent);
+      const enhancedHtml = await enhanceReadability(editableContent, TARGET_LANGUAGE);
       
       // 4. Update the new window with the final content
       newWindow.document.title = result.title;
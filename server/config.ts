@@ -0,0 +1,31 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+const DEFAULT_CONFIG_FILE = 'lingua.config.json';
+
+/**
+ * 설정 파일의 값을 process.env에 채웁니다. 이미 설정된 환경 변수가 항상 우선합니다.
+ * 파일 경로는 --config <path>, LINGUA_CONFIG 순으로 찾고, 없으면 현재 디렉터리의 lingua.config.json을 사용합니다.
+ * 파일은 환경 변수 이름을 키로 갖는 JSON 객체입니다. 예: { "LLM_PROVIDER": "gemini", "API_KEY": "..." }
+ */
+export const loadConfig = (argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): string | null => {
+    const flagIndex = argv.indexOf('--config');
+    const explicitPath = flagIndex !== -1 ? argv[flagIndex + 1] : env.LINGUA_CONFIG;
+    const configPath = path.resolve(explicitPath || DEFAULT_CONFIG_FILE);
+
+    if (!fs.existsSync(configPath)) {
+        if (explicitPath) throw new Error(`Config file not found: ${configPath}`);
+        return null;
+    }
+
+    const values = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as unknown;
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        throw new Error(`Config file must contain a JSON object: ${configPath}`);
+    }
+    for (const [key, value] of Object.entries(values)) {
+        if (env[key] === undefined && value !== null && value !== undefined) {
+            env[key] = String(value);
+        }
+    }
+    return configPath;
+};
@@ -0,0 +1,118 @@
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadConfig } from './config';
+import { runVercelHandler, BodyTooLargeError, VercelHandler } from './vercelAdapter';
+
+/**
+ * Vercel 없이 전체 앱을 실행하는 Node HTTP 서버입니다.
+ * - POST /api/proxy, /api/jobs, /api/jobs/:id, GET /api/translation-memory: api/ 아래의 핸들러를 그대로 사용합니다.
+ * - 그 밖의 경로: 빌드된 Vite 결과물(STATIC_DIR, 기본값 dist)을 제공합니다.
+ * 설정은 환경 변수 또는 설정 파일(server/config.ts 참고)에서 읽습니다. PORT 기본값은 3001입니다.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+    '.txt': 'text/plain; charset=utf-8',
+};
+
+const sendJsonError = (res: http.ServerResponse, status: number, code: string, message: string) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify({ error: { code, message, retryable: false } }));
+};
+
+// 정적 파일을 제공합니다. 없는 경로는 SPA이므로 index.html로 응답합니다.
+const serveStatic = (staticDir: string, pathname: string, res: http.ServerResponse) => {
+    const root = path.resolve(staticDir);
+    let decodedPath: string;
+    try {
+        decodedPath = decodeURIComponent(pathname);
+    } catch {
+        res.writeHead(400).end();
+        return;
+    }
+    let filePath = path.resolve(root, `.${decodedPath}`);
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+        res.writeHead(403).end();
+        return;
+    }
+    if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+        filePath = path.join(root, 'index.html');
+        if (!fs.existsSync(filePath)) {
+            res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.end(`No build found in ${root}. Run 'npm run build' first.`);
+            return;
+        }
+    }
+    // Vite가 해시를 붙인 assets/ 아래 파일만 오래 캐시합니다.
+    const cacheControl = pathname.startsWith('/assets/') ? 'public, max-age=31536000, immutable' : 'no-cache';
+    res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream',
+        'Cache-Control': cacheControl,
+    });
+    fs.createReadStream(filePath).pipe(res);
+};
+
+const main = async () => {
+    const configPath = loadConfig();
+    // 핸들러는 모듈을 불러올 때 환경 변수를 읽으므로, 설정을 먼저 채운 뒤에 불러옵니다.
+    const { default: proxyHandler } = await import('../api/proxy');
+    const { default: createJobHandler } = await import('../api/jobs/index');
+    const { default: jobHandler } = await import('../api/jobs/[id]');
+    const { default: translationMemoryHandler } = await import('../api/translation-memory');
+
+    const routes: { pattern: RegExp; handler: VercelHandler }[] = [
+        { pattern: /^\/api\/proxy\/?$/, handler: proxyHandler },
+        { pattern: /^\/api\/jobs\/?$/, handler: createJobHandler },
+        { pattern: /^\/api\/jobs\/(?<id>[^/]+)\/?$/, handler: jobHandler },
+        { pattern: /^\/api\/translation-memory\/?$/, handler: translationMemoryHandler },
+    ];
+
+    const port = Number(process.env.PORT) || 3001;
+    const staticDir = process.env.STATIC_DIR || 'dist';
+
+    const server = http.createServer(async (req, res) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        try {
+            for (const { pattern, handler } of routes) {
+                const match = pattern.exec(pathname);
+                if (match) {
+                    await runVercelHandler(handler, req, res, match.groups);
+                    return;
+                }
+            }
+            if (pathname.startsWith('/api/')) {
+                sendJsonError(res, 404, 'NOT_FOUND', `No API route for ${pathname}`);
+                return;
+            }
+            serveStatic(staticDir, pathname, res);
+        } catch (error) {
+            console.error(`Error handling ${req.method} ${pathname}:`, error);
+            if (res.headersSent) {
+                res.end();
+            } else if (error instanceof BodyTooLargeError) {
+                sendJsonError(res, 413, 'PAYLOAD_TOO_LARGE', error.message);
+            } else {
+                sendJsonError(res, 500, 'INTERNAL_ERROR', 'An internal server error occurred.');
+            }
+        }
+    });
+
+    server.listen(port, () => {
+        console.log(`LinguaScope server listening on http://localhost:${port}`);
+        console.log(`Serving static files from ${path.resolve(staticDir)}${configPath ? `, config from ${configPath}` : ''}`);
+    });
+};
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,84 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export type VercelHandler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+// 요청 본문 최대 크기(바이트). 본문 HTML 제한(MAX_CONTENT_CHARS)보다 넉넉하게 잡습니다.
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 4 * 1024 * 1024;
+
+export class BodyTooLargeError extends Error {
+    constructor() {
+        super(`Request body exceeds ${MAX_BODY_BYTES.toLocaleString()} bytes.`);
+        this.name = 'BodyTooLargeError';
+    }
+}
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new BodyTooLargeError());
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        req.on('error', reject);
+    });
+
+// Vercel처럼 JSON 본문은 객체로, 그 밖의 본문은 문자열 그대로 넘깁니다. 잘못된 JSON은 핸들러의 검증에서 걸러집니다.
+const parseBody = (raw: string, contentType: string | undefined): unknown => {
+    if (!raw) return undefined;
+    if (contentType?.includes('application/json')) {
+        try {
+            return JSON.parse(raw);
+        } catch {
+            return raw;
+        }
+    }
+    return raw;
+};
+
+/**
+ * Node의 요청/응답 객체에 Vercel 핸들러가 쓰는 필드(body, query, status(), json(), send())를 덧붙여
+ * api/ 아래의 핸들러를 Vercel CLI 없이 실행합니다.
+ */
+export const runVercelHandler = async (
+    handler: VercelHandler,
+    req: IncomingMessage,
+    res: ServerResponse,
+    params: Record<string, string> = {},
+) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const query: Record<string, string | string[]> = { ...params };
+    for (const key of new Set(url.searchParams.keys())) {
+        const values = url.searchParams.getAll(key);
+        query[key] = values.length > 1 ? values : values[0];
+    }
+
+    const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : parseBody(await readBody(req), req.headers['content-type']);
+    const vercelReq = Object.assign(req, { body, query, cookies: {} }) as unknown as VercelRequest;
+
+    const vercelRes = Object.assign(res, {
+        status(code: number) {
+            res.statusCode = code;
+            return vercelRes;
+        },
+        json(value: unknown) {
+            if (!res.hasHeader('Content-Type')) res.setHeader('Content-Type', 'application/json; charset=utf-8');
+            res.end(JSON.stringify(value));
+            return vercelRes;
+        },
+        send(value: unknown) {
+            if (typeof value === 'object' && value !== null && !Buffer.isBuffer(value)) return vercelRes.json(value);
+            res.end(value as string | Buffer);
+            return vercelRes;
+        },
+    }) as unknown as VercelResponse;
+
+    await handler(vercelReq, vercelRes);
+};
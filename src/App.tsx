@@ -1,28 +1,88 @@
-import React, { useState, useEffect, useCallback, useReducer } from 'react';
-import { AiModel, JobResult, UiState, JobStatus, AnalysisOutput } from './types';
+import React, { useState, useEffect, useCallback, useReducer, useRef } from 'react';
+import { AI_MODELS, AiModel, GlossaryEntry, JobArtifacts, JobInput, JobResult, JobSnapshot, ProtectionSettings, TargetLanguage, TranslationStyle, UiState, JobStatus, ProxyAction, ProxyActionLabels, ProxyResponseMeta, LlmErrorKind, LlmErrorKindLabels, StageTimings } from './types';
 import { UrlInputForm, InputMode } from './components/UrlInputForm';
 import { ResultDisplay } from './components/ResultDisplay';
 import { ProgressIndicator } from './components/ProgressIndicator';
 import { useHotkeys } from './hooks/useHotkeys';
-import { fetchUrlContent, performAnalysis, performTranslation, detectLanguage, translateAnalysis } from './services/apiService';
+import { QuotaExceededNotice } from './components/QuotaExceededNotice';
+import { AccessTokenForm } from './components/AccessTokenForm';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { ProtectionPanel } from './components/ProtectionPanel';
+import { createJob, getJob, cancelJob, exportTranslationMemory, getAccessToken, setAccessToken } from './services/apiService';
+import { ApiRequestError, NetworkError, QuotaExceededError, createApiError } from './services/errors';
+import { recordStageTimings } from './services/stageHistory';
+import { loadProtection, loadTargetLanguage, loadTranslationStyle, saveProtection, saveTargetLanguage, saveTranslationStyle } from './services/preferences';
+import { loadGlossary, saveGlossary } from './services/glossary';
+import { downloadFile } from './services/download';
 import { LogoIcon } from './components/icons';
 
 // --- State Management with Reducer ---
 
+// Extra context for the ERROR view when the failure was reported by the server.
+interface ErrorDetail {
+  guidance: string;
+  code: string;
+  stage?: ProxyAction;
+  classification?: LlmErrorKind;
+  retries?: number;
+  // Epoch ms after which a QUOTA_EXCEEDED job may be submitted again.
+  retryAt?: number;
+}
+
+// Used when the server did not say how long to wait.
+const DEFAULT_QUOTA_WAIT_SECONDS = 60;
+
+// The server runs the pipeline; the browser polls the job until it finishes.
+const POLL_INTERVAL_MS = 1000;
+// Consecutive failed polls (e.g. a flaky connection) tolerated before giving up.
+const MAX_POLL_FAILURES = 5;
+// Job this browser is following, so reopening the tab picks it back up.
+const ACTIVE_JOB_KEY = 'lingua-canvas-active-job';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// What a running job has produced so far. The analysis usually arrives well before the full translation.
+interface PartialResult {
+  result: JobResult;
+  // False while the summary, key points, players and keywords are still in the source language.
+  isAnalysisFinal: boolean;
+  // False while the full translation is still streaming in.
+  isTranslationFinal: boolean;
+}
+
+const partialResultOf = (job: JobSnapshot): PartialResult | null => job.partialResult ? {
+  result: job.partialResult,
+  isAnalysisFinal: !!job.stageTimings.translateAnalysis?.endedAt,
+  isTranslationFinal: !!job.stageTimings.performTranslation?.endedAt,
+} : null;
+
 interface State {
   uiState: UiState;
   jobStatus: JobStatus | null;
   currentResult: JobResult | null;
   error: string | null;
+  errorDetail: ErrorDetail | null;
   inputValue: string;
   jobStartTime: number | null;
+  // Provisional result shown while the job is still running.
+  partialResult: PartialResult | null;
+  // Response metadata (cache use, retries) of each pipeline stage in the current job.
+  stageMeta: Partial<Record<ProxyAction, ProxyResponseMeta>>;
+  // When each stage started and ended, and what the ETA is based on.
+  stageTimings: StageTimings;
+  contentLength?: number;
+  hasExtraction: boolean;
+  // Outputs of the stages that have finished, kept after a failure so the job can be resumed from the failed stage.
+  artifacts: JobArtifacts;
 }
 
 type Action =
-  | { type: 'JOB_START'; payload: { value: string; startTime: number } }
-  | { type: 'JOB_PROGRESS'; payload: { status: JobStatus } }
-  | { type: 'JOB_SUCCESS'; payload: { result: JobResult } }
-  | { type: 'JOB_ERROR'; payload: { error: string } }
+  | { type: 'JOB_START'; payload: { value: string; startTime: number; hasExtraction: boolean; artifacts?: JobArtifacts } }
+  | { type: 'JOB_SNAPSHOT'; payload: { job: JobSnapshot } }
+  | { type: 'JOB_SUCCESS'; payload: { result: JobResult; artifacts: JobArtifacts } }
+  | { type: 'JOB_ERROR'; payload: { error: string; detail?: ErrorDetail } }
+  | { type: 'JOB_QUOTA_EXCEEDED'; payload: { error: string; detail: ErrorDetail } }
+  | { type: 'JOB_CANCELLED' }
   | { type: 'RESET' };
 
 const initialState: State = {
@@ -30,8 +90,14 @@ const initialState: State = {
   jobStatus: null,
   currentResult: null,
   error: null,
+  errorDetail: null,
   inputValue: '',
   jobStartTime: null,
+  partialResult: null,
+  stageMeta: {},
+  stageTimings: {},
+  hasExtraction: true,
+  artifacts: {},
 };
 
 function jobReducer(state: State, action: Action): State {
@@ -42,12 +108,20 @@ function jobReducer(state: State, action: Action): State {
         uiState: UiState.PROCESSING,
         inputValue: action.payload.value,
         jobStartTime: action.payload.startTime,
+        hasExtraction: action.payload.hasExtraction,
+        artifacts: action.payload.artifacts ?? {},
         jobStatus: JobStatus.QUEUED,
       };
-    case 'JOB_PROGRESS':
+    case 'JOB_SNAPSHOT':
+      if (state.uiState !== UiState.PROCESSING) return state;
       return {
         ...state,
-        jobStatus: action.payload.status,
+        jobStatus: action.payload.job.status,
+        stageMeta: action.payload.job.stageMeta,
+        stageTimings: action.payload.job.stageTimings,
+        contentLength: action.payload.job.contentLength,
+        artifacts: action.payload.job.artifacts ?? state.artifacts,
+        partialResult: partialResultOf(action.payload.job),
       };
     case 'JOB_SUCCESS':
       return {
@@ -55,6 +129,8 @@ function jobReducer(state: State, action: Action): State {
         uiState: UiState.COMPLETE,
         jobStatus: JobStatus.COMPLETED,
         currentResult: action.payload.result,
+        artifacts: action.payload.artifacts,
+        partialResult: null,
         error: null,
       };
     case 'JOB_ERROR':
@@ -62,7 +138,26 @@ function jobReducer(state: State, action: Action): State {
         ...state,
         uiState: UiState.ERROR,
         jobStatus: JobStatus.FAILED,
+        partialResult: null,
         error: action.payload.error,
+        errorDetail: action.payload.detail ?? null,
+      };
+    case 'JOB_QUOTA_EXCEEDED':
+      return {
+        ...state,
+        uiState: UiState.QUOTA_EXCEEDED,
+        jobStatus: JobStatus.FAILED,
+        partialResult: null,
+        error: action.payload.error,
+        errorDetail: action.payload.detail,
+      };
+    case 'JOB_CANCELLED':
+      // Back to the form with the input kept, so it can be corrected and resubmitted.
+      if (state.uiState !== UiState.PROCESSING) return state;
+      return {
+        ...initialState,
+        inputValue: state.inputValue,
+        jobStatus: JobStatus.CANCELLED,
       };
     case 'RESET':
       return {
@@ -73,81 +168,206 @@ function jobReducer(state: State, action: Action): State {
   }
 }
 
+// `performance.now()`-based start time of a job that was created at `createdAt` (epoch ms).
+const startTimeOf = (job: JobSnapshot) => performance.now() - (Date.now() - job.createdAt);
 
 const App: React.FC = () => {
   const [state, dispatch] = useReducer(jobReducer, initialState);
   const [model, setModel] = useState<AiModel>('gemini-2.5-flash-lite');
-  
-  const handleJobSubmit = useCallback(async (value: string, mode: InputMode) => {
-    const jobStart = performance.now();
-    dispatch({ type: 'JOB_START', payload: { value, startTime: jobStart } });
-    
+  const [bypassCache, setBypassCache] = useState(false);
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>(loadTargetLanguage);
+  const [translationStyle, setTranslationStyle] = useState<TranslationStyle>(loadTranslationStyle);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [protection, setProtection] = useState<ProtectionSettings>(loadProtection);
+  const [isProtectionOpen, setIsProtectionOpen] = useState(false);
+  // ID of the job being polled; polling stops as soon as it changes.
+  const activeJobId = useRef<string | null>(null);
+  // Aborts the requests in flight for the current job (creating or polling it).
+  const abortController = useRef<AbortController | null>(null);
+  // Last submitted input, so a job refused by the server or failed midway can be sent again.
+  const lastSubmission = useRef<JobInput | null>(null);
+
+  const failJob = useCallback((err: unknown) => {
+    const detail = err instanceof ApiRequestError
+      ? { guidance: err.guidance, code: err.code, stage: err.stage, classification: err.classification, retries: err.retries }
+      : undefined;
+    if (err instanceof QuotaExceededError && detail) {
+      const retryAt = Date.now() + (err.retryAfter ?? DEFAULT_QUOTA_WAIT_SECONDS) * 1000;
+      dispatch({ type: 'JOB_QUOTA_EXCEEDED', payload: { error: err.message, detail: { ...detail, retryAt } } });
+      return;
+    }
+    dispatch({ type: 'JOB_ERROR', payload: { error: (err as Error).message, detail } });
+  }, []);
+
+  const followJob = useCallback(async (jobId: string, signal: AbortSignal) => {
+    activeJobId.current = jobId;
+    localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+    let failures = 0;
     try {
-      let content: string;
-      let finalUrl: string;
-
-      if (mode === 'url') {
-        dispatch({ type: 'JOB_PROGRESS', payload: { status: JobStatus.EXTRACTING } });
-        content = await fetchUrlContent(value);
-        finalUrl = value;
-      } else {
-        const paragraphs = value.split(/\n{2,}/);
-        content = paragraphs.map(p => {
-          const lines = p.split('\n').join('<br>');
-          return `<p>${lines}</p>`;
-        }).join('');
-        finalUrl = ''; 
+      while (activeJobId.current === jobId) {
+        let job: JobSnapshot;
+        try {
+          job = await getJob(jobId, { signal });
+          failures = 0;
+        } catch (err) {
+          if (!(err instanceof NetworkError) || ++failures >= MAX_POLL_FAILURES) throw err;
+          await sleep(POLL_INTERVAL_MS);
+          continue;
+        }
+        if (activeJobId.current !== jobId) return;
+
+        if (job.status === JobStatus.COMPLETED && job.result) {
+          recordStageTimings(job.result, job.stageMeta);
+          dispatch({ type: 'JOB_SUCCESS', payload: { result: job.result, artifacts: job.artifacts } });
+          return;
+        }
+        if (job.status === JobStatus.CANCELLED) {
+          // Cancelled elsewhere, e.g. from another tab.
+          dispatch({ type: 'JOB_CANCELLED' });
+          return;
+        }
+        // Applied before a failure too, so the artifacts of the stages that did finish are kept.
+        dispatch({ type: 'JOB_SNAPSHOT', payload: { job } });
+        if (job.status === JobStatus.FAILED) {
+          throw job.error ? createApiError(job.error) : new Error('작업이 실패했습니다.');
+        }
+        await sleep(POLL_INTERVAL_MS);
       }
-      
-      dispatch({ type: 'JOB_PROGRESS', payload: { status: JobStatus.DETECTING_LANGUAGE } });
-      const language = await detectLanguage(content);
-
-      dispatch({ type: 'JOB_PROGRESS', payload: { status: JobStatus.ANALYZING } });
-      const rawAnalysisResult = await performAnalysis(content, model);
-      
-      let fullTranslation: string;
-      let finalAnalysisResult: AnalysisOutput;
-
-      if (language === 'ko') {
-        fullTranslation = content; 
-        finalAnalysisResult = rawAnalysisResult;
-      } else {
-        dispatch({ type: 'JOB_PROGRESS', payload: { status: JobStatus.TRANSLATING } });
-        const [translatedAnalysis, translatedContent] = await Promise.all([
-          translateAnalysis(rawAnalysisResult, model),
-          performTranslation(content, model)
-        ]);
-        finalAnalysisResult = translatedAnalysis;
-        fullTranslation = translatedContent;
+    } catch (err) {
+      if (activeJobId.current === jobId) failJob(err);
+    } finally {
+      if (activeJobId.current === jobId) {
+        activeJobId.current = null;
+        localStorage.removeItem(ACTIVE_JOB_KEY);
       }
-      
-      const jobEnd = performance.now();
-      const totalTime = (jobEnd - jobStart) / 1000;
-
-      const finalResult: JobResult = {
-        title: finalAnalysisResult.title,
-        originalUrl: finalUrl,
-        originalContent: content,
-        processingTime: { total: totalTime },
-        outputs: {
-          oneLineSummary: finalAnalysisResult.oneLineSummary,
-          keyPoints: finalAnalysisResult.keyPoints,
-          keyPlayers: finalAnalysisResult.keyPlayers,
-          keywords: finalAnalysisResult.keywords,
-          fullTranslation: fullTranslation,
-        }
-      };
+    }
+  }, [failJob]);
 
-      dispatch({ type: 'JOB_SUCCESS', payload: { result: finalResult } });
-      
+  // `resume` skips the stages whose artifacts it holds.
+  const submitJob = useCallback(async (input: JobInput, resume?: JobArtifacts) => {
+    lastSubmission.current = input;
+    const value = input.url !== undefined ? input.url : input.text;
+    dispatch({ type: 'JOB_START', payload: { value, startTime: performance.now(), hasExtraction: input.url !== undefined, artifacts: resume } });
+    const controller = new AbortController();
+    abortController.current = controller;
+    try {
+      const job = await createJob(input, { bypassCache, resume, signal: controller.signal });
+      await followJob(job.id, controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) failJob(err);
+    }
+  }, [bypassCache, followJob, failJob]);
+
+  const handleJobSubmit = useCallback((value: string, mode: InputMode) => {
+    const options = { model, targetLanguage, ...(glossary.length > 0 && { glossary }), protection, style: translationStyle };
+    submitJob(mode === 'url' ? { url: value, ...options } : { text: value, ...options });
+  }, [submitJob, model, targetLanguage, glossary, protection, translationStyle]);
+
+  // Pick up a job that was still running when the tab was closed or reloaded.
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!jobId || activeJobId.current === jobId) return;
+    activeJobId.current = jobId;
+    const controller = new AbortController();
+    abortController.current = controller;
+    getJob(jobId, { signal: controller.signal })
+      .then(job => {
+        if (activeJobId.current !== jobId) return;
+        lastSubmission.current = job.input;
+        dispatch({ type: 'JOB_START', payload: {
+          value: job.input.url ?? job.input.text ?? '',
+          startTime: startTimeOf(job),
+          hasExtraction: job.input.url !== undefined,
+        } });
+        followJob(jobId, controller.signal);
+      })
+      .catch(() => {
+        activeJobId.current = null;
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+      });
+  }, [followJob]);
+
+  // Sends the last input again, reusing whatever the failed job had already finished.
+  // The target language stays that of the failed job, since its artifacts may already be translated.
+  const retryLastSubmission = useCallback((jobModel?: AiModel) => {
+    const submission = lastSubmission.current;
+    if (submission) submitJob({ ...submission, model: jobModel ?? submission.model }, state.artifacts);
+  }, [submitJob, state.artifacts]);
+
+  // Runs the last job again with its source language set by hand. The content, analysis and any translations
+  // are reused, so only the decision whether to translate changes.
+  const rerunWithLanguage = useCallback((language: string) => {
+    const submission = lastSubmission.current;
+    const detected = state.currentResult?.sourceLanguage;
+    if (!submission || !detected) return;
+    submitJob(submission, { ...state.artifacts, language: { ...detected, language, confidence: 1, source: 'user' } });
+  }, [submitJob, state.artifacts, state.currentResult]);
+
+  const retryWithModel = useCallback((nextModel: AiModel) => {
+    setModel(nextModel);
+    retryLastSubmission(nextModel);
+  }, [retryLastSubmission]);
+
+  const otherModel = AI_MODELS.find(candidate => candidate !== model);
+
+  // The chosen language becomes the default for later visits.
+  const changeTargetLanguage = useCallback((language: TargetLanguage) => {
+    setTargetLanguage(language);
+    saveTargetLanguage(language);
+  }, []);
+
+  // Like the target language, the chosen style becomes the default for later jobs.
+  const changeTranslationStyle = useCallback((style: TranslationStyle) => {
+    setTranslationStyle(style);
+    saveTranslationStyle(style);
+  }, []);
+
+  const changeGlossary = useCallback((entries: GlossaryEntry[]) => {
+    setGlossary(entries);
+    saveGlossary(entries);
+  }, []);
+
+  const changeProtection = useCallback((settings: ProtectionSettings) => {
+    setProtection(settings);
+    saveProtection(settings);
+  }, []);
+
+  // The translation memory lives on the server, one per access token (or per IP address without tokens).
+  const downloadTranslationMemory = useCallback(async () => {
+    try {
+      downloadFile(await exportTranslationMemory(), 'translation-memory.tmx', 'application/x-tmx+xml;charset=utf-8');
     } catch (err) {
-      dispatch({ type: 'JOB_ERROR', payload: { error: (err as Error).message } });
+      alert(`번역 메모리를 내려받지 못했습니다: ${(err as Error).message}`);
     }
-  }, [model]);
+  }, []);
+
+  const saveAccessToken = useCallback((token: string) => {
+    setAccessToken(token);
+    retryLastSubmission();
+  }, [retryLastSubmission]);
+
+  // Stops polling, aborts the requests in flight and cancels the job on the server, which aborts its model calls.
+  const stopActiveJob = useCallback(() => {
+    abortController.current?.abort();
+    abortController.current = null;
+    const jobId = activeJobId.current;
+    if (jobId) {
+      activeJobId.current = null;
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+      cancelJob(jobId).catch(err => console.warn('Failed to cancel job:', err));
+    }
+  }, []);
+
+  const cancelProcessing = useCallback(() => {
+    stopActiveJob();
+    dispatch({ type: 'JOB_CANCELLED' });
+  }, [stopActiveJob]);
 
   const resetState = useCallback(() => {
+    stopActiveJob();
     dispatch({ type: 'RESET' });
-  }, []);
+  }, [stopActiveJob]);
   
   const toggleDarkMode = useCallback(() => {
     document.documentElement.classList.toggle('dark');
@@ -156,6 +376,9 @@ const App: React.FC = () => {
 
   useHotkeys({
     'ctrl+d': toggleDarkMode,
+    'escape': () => {
+      if (state.uiState === UiState.PROCESSING) cancelProcessing();
+    },
   });
 
   useEffect(() => {
@@ -169,12 +392,36 @@ const App: React.FC = () => {
     <div className="bg-gray-900 text-gray-100 font-sans">
       <main className="flex flex-col p-4 md:p-8 min-h-screen">
         <div className="w-full max-w-4xl mx-auto flex-grow flex flex-col">
-          <header className="flex items-center justify-start mb-6">
+          <header className="flex items-center justify-between mb-6">
             <div className="flex items-center">
               <LogoIcon />
               <h1 className="text-xl md:text-2xl font-bold ml-2">LinguaScope</h1>
             </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={downloadTranslationMemory}
+                className="text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors bg-gray-800 text-gray-300 hover:bg-gray-700"
+                title="번역 메모리를 TMX 파일로 내려받습니다"
+              >
+                번역 메모리 (TMX)
+              </button>
+              <button
+                onClick={() => setIsGlossaryOpen(open => !open)}
+                className={`text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors ${isGlossaryOpen ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                용어집 ({glossary.length})
+              </button>
+              <button
+                onClick={() => setIsProtectionOpen(open => !open)}
+                className={`text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors ${isProtectionOpen ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                보호 규칙
+              </button>
+            </div>
           </header>
+
+          {isGlossaryOpen && <GlossaryPanel glossary={glossary} onChange={changeGlossary} />}
+          {isProtectionOpen && <ProtectionPanel settings={protection} onChange={changeProtection} />}
           
           <UrlInputForm 
             initialValue={state.inputValue}
@@ -183,30 +430,94 @@ const App: React.FC = () => {
             onReset={resetState}
             model={model}
             onModelChange={setModel}
+            bypassCache={bypassCache}
+            onBypassCacheChange={setBypassCache}
+            targetLanguage={targetLanguage}
+            onTargetLanguageChange={changeTargetLanguage}
+            translationStyle={translationStyle}
+            onTranslationStyleChange={changeTranslationStyle}
           />
 
           <div className="mt-8 flex-grow flex flex-col">
             {state.uiState === UiState.PROCESSING && state.jobStatus && (
               <div className="animate-fade-in">
-                <ProgressIndicator status={state.jobStatus} startTime={state.jobStartTime} />
+                <ProgressIndicator
+                  status={state.jobStatus}
+                  startTime={state.jobStartTime}
+                  stageMeta={state.stageMeta}
+                  stageTimings={state.stageTimings}
+                  contentLength={state.contentLength}
+                  hasExtraction={state.hasExtraction}
+                  onCancel={cancelProcessing}
+                />
+                {state.partialResult && (
+                  <ResultDisplay
+                    result={state.partialResult.result}
+                    pending={{ analysis: !state.partialResult.isAnalysisFinal, translation: !state.partialResult.isTranslationFinal }}
+                  />
+                )}
               </div>
             )}
             {state.uiState === UiState.COMPLETE && state.currentResult && (
               <div className="animate-fade-in">
-                <ResultDisplay result={state.currentResult} />
+                <ResultDisplay
+                  result={state.currentResult}
+                  onSourceLanguageChange={rerunWithLanguage}
+                  retranslation={{ model, glossary, protection }}
+                />
               </div>
             )}
              {state.uiState === UiState.ERROR && (
                 <div className="text-center p-8 bg-red-900/20 rounded-lg animate-fade-in">
                     <h3 className="text-xl font-semibold text-red-400">작업 실패</h3>
                     <p className="mt-2 text-red-300">{state.error}</p>
-                    <button onClick={resetState} className="mt-6 bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
-                        새로 시작하기
-                    </button>
+                    {state.errorDetail && (
+                      <>
+                        <p className="mt-4 text-gray-300">{state.errorDetail.guidance}</p>
+                        <p className="mt-2 text-xs text-gray-500 font-mono">
+                          {state.errorDetail.code}
+                          {state.errorDetail.stage && ` · ${ProxyActionLabels[state.errorDetail.stage]} 단계`}
+                          {state.errorDetail.classification && ` · ${LlmErrorKindLabels[state.errorDetail.classification]}`}
+                          {!!state.errorDetail.retries && ` · ${state.errorDetail.retries}회 재시도 후 실패`}
+                        </p>
+                      </>
+                    )}
+                    {state.errorDetail?.code === 'UNAUTHORIZED' && (
+                      <AccessTokenForm initialToken={getAccessToken()} onSave={saveAccessToken} />
+                    )}
+                    <div className="mt-6 flex flex-wrap justify-center gap-3">
+                      {lastSubmission.current && state.errorDetail?.code !== 'UNAUTHORIZED' && (
+                        <>
+                          <button onClick={() => retryLastSubmission()} className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                            {state.errorDetail?.stage ? `${ProxyActionLabels[state.errorDetail.stage]} 단계부터 다시 시도` : '다시 시도'}
+                          </button>
+                          {otherModel && (
+                            <button onClick={() => retryWithModel(otherModel)} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                              {otherModel} 모델로 다시 시도
+                            </button>
+                          )}
+                        </>
+                      )}
+                      <button onClick={resetState} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                          새로 시작하기
+                      </button>
+                    </div>
                 </div>
             )}
+            {state.uiState === UiState.QUOTA_EXCEEDED && state.errorDetail?.retryAt && (
+              <QuotaExceededNotice
+                message={state.error ?? ''}
+                guidance={state.errorDetail.guidance}
+                retryAt={state.errorDetail.retryAt}
+                onRetry={() => retryLastSubmission()}
+                onReset={resetState}
+              />
+            )}
             {state.uiState === UiState.DEFAULT && (
                 <div className="text-center p-8 text-gray-400">
+                    {state.jobStatus === JobStatus.CANCELLED && (
+                      <p className="mb-2 text-yellow-300">작업을 취소했습니다.</p>
+                    )}
                     <p>분석하고 싶은 웹 페이지의 URL을 입력하거나 텍스트를 직접 붙여넣어주세요.</p>
                 </div>
             )}
@@ -0,0 +1,32 @@
+import React, { FormEvent, useState } from 'react';
+
+interface AccessTokenFormProps {
+  initialToken: string;
+  onSave: (token: string) => void;
+}
+
+// Asks for the server's access token after a 401; the token is kept in localStorage for later visits.
+export const AccessTokenForm: React.FC<AccessTokenFormProps> = ({ initialToken, onSave }) => {
+  const [token, setToken] = useState(initialToken);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (token.trim()) onSave(token);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 flex flex-col sm:flex-row justify-center gap-2 max-w-md mx-auto">
+      <input
+        type="password"
+        value={token}
+        onChange={e => setToken(e.target.value)}
+        placeholder="접근 토큰"
+        autoComplete="off"
+        className="flex-grow bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button type="submit" className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+        저장 후 다시 시도
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { alignBlocks, AlignedPair, LOW_ALIGNMENT_CONFIDENCE } from '../core/alignment';
+
+interface BilingualViewProps {
+  sourceHtml: string;
+  translationHtml: string;
+}
+
+type Side = 'source' | 'target';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const pairShape = (pair: AlignedPair) => `${pair.source.length}:${pair.target.length}`;
+
+/**
+ * Scrolls `to` so that the pair at the top of `from` is at its top too, at the same relative position within the pair.
+ * Pairs differ in height on the two sides, so the columns cannot simply share a scroll offset.
+ * Returns whether `to` actually moved, i.e. whether it will fire a scroll event of its own.
+ */
+const syncScroll = (from: HTMLDivElement, to: HTMLDivElement): boolean => {
+  const fromBlocks = Array.from(from.querySelectorAll<HTMLElement>('[data-pair]'));
+  const toBlocks = Array.from(to.querySelectorAll<HTMLElement>('[data-pair]'));
+  const top = from.scrollTop;
+  let index = fromBlocks.findIndex(block => block.offsetTop + block.offsetHeight > top);
+  if (index === -1) index = fromBlocks.length - 1;
+  const fromBlock = fromBlocks[index];
+  const toBlock = toBlocks[index];
+  if (!fromBlock || !toBlock) return false;
+  const progress = fromBlock.offsetHeight ? (top - fromBlock.offsetTop) / fromBlock.offsetHeight : 0;
+  const before = to.scrollTop;
+  to.scrollTop = toBlock.offsetTop + Math.max(0, progress) * toBlock.offsetHeight;
+  return to.scrollTop !== before;
+};
+
+// Source and translation side by side, block by block. Both columns scroll together and hovering a block highlights its counterpart.
+export const BilingualView: React.FC<BilingualViewProps> = ({ sourceHtml, translationHtml }) => {
+  const alignment = useMemo(() => alignBlocks(sourceHtml, translationHtml), [sourceHtml, translationHtml]);
+  const [hoveredPair, setHoveredPair] = useState<number | null>(null);
+  const columns = { source: useRef<HTMLDivElement>(null), target: useRef<HTMLDivElement>(null) };
+  // The column whose scroll was set programmatically; its next scroll event is not mirrored back.
+  const syncedSide = useRef<Side | null>(null);
+
+  const handleScroll = (side: Side) => {
+    if (syncedSide.current === side) {
+      syncedSide.current = null;
+      return;
+    }
+    const other: Side = side === 'source' ? 'target' : 'source';
+    const from = columns[side].current;
+    const to = columns[other].current;
+    if (from && to && syncScroll(from, to)) syncedSide.current = other;
+  };
+
+  const uncertainPairs = alignment.pairs.filter(pair => pair.confidence < LOW_ALIGNMENT_CONFIDENCE).length;
+
+  const renderColumn = (side: Side) => (
+    <div
+      ref={columns[side]}
+      onScroll={() => handleScroll(side)}
+      className="relative max-h-[70vh] overflow-y-auto pr-1 space-y-1"
+    >
+      {alignment.pairs.map((pair, index) => {
+        const blocks = side === 'source' ? pair.source : pair.target;
+        const isUncertain = pair.confidence < LOW_ALIGNMENT_CONFIDENCE;
+        return (
+          <div
+            key={index}
+            data-pair={index}
+            onMouseEnter={() => setHoveredPair(index)}
+            onMouseLeave={() => setHoveredPair(null)}
+            className={`relative rounded-md p-2 border-l-2 transition-colors ${
+              hoveredPair === index ? 'bg-blue-900/30' : ''
+            } ${isUncertain ? 'border-yellow-500' : 'border-transparent'}`}
+          >
+            {isUncertain && side === 'target' && (
+              <span
+                className="float-right ml-2 bg-yellow-900/40 text-yellow-300 text-xs px-2 py-0.5 rounded-full"
+                title={`원문 ${pair.source.length}블록과 번역 ${pair.target.length}블록을 맞췄습니다. 정렬 신뢰도 ${formatPercent(pair.confidence)}`}
+              >
+                정렬 불확실 {pairShape(pair)}
+              </span>
+            )}
+            {blocks.length > 0
+              ? <div className="prose-like" dangerouslySetInnerHTML={{ __html: blocks.join('') }} />
+              : <p className="text-xs text-gray-500 italic">대응하는 블록 없음</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400 px-2">
+        정렬 신뢰도 {formatPercent(alignment.confidence)} · 원문 {alignment.sourceBlocks}블록 / 번역 {alignment.targetBlocks}블록
+        {uncertainPairs > 0 && <span className="text-yellow-300"> · 불확실한 정렬 {uncertainPairs}곳</span>}
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        {renderColumn('source')}
+        {renderColumn('target')}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { FormEvent, useState } from 'react';
+import { AI_MODELS, AiModel, GlossaryEntry, ProtectionSettings, TargetLanguage, TranslationStyle } from '../types';
+import { alignBlocks } from '../core/alignment';
+import { BLOCK_ELEMENTS } from '../core/chunking';
+import { tokenizeHtml } from '../core/html';
+import { retranslateBlock } from '../services/apiService';
+import { LoadingSpinner } from './LoadingSpinner';
+
+// Re-translates one block of the editable translation and offers the results next to it, to accept or discard.
+// Blocks are told apart as splitBlocks (see ../core/chunking) divides a document, so the editor's blocks can be
+// paired with the source blocks by the alignment of the side-by-side view.
+
+// What the panel needs besides the result: the settings a new translation of a block is made with.
+export interface BlockRetranslationSettings {
+  // The model last chosen; the other one is offered first.
+  model: AiModel;
+  glossary: GlossaryEntry[];
+  protection: ProtectionSettings;
+}
+
+export interface BlockSelection {
+  // The editor's blocks translating the same source blocks, in document order; usually just the one clicked.
+  blocks: HTMLElement[];
+  // Those source blocks without their container tags (e.g. <li> without <ul>); '' when the blocks have no source counterpart.
+  sourceHtml: string;
+}
+
+interface Alternative {
+  id: number;
+  html: string;
+  model: AiModel;
+  instruction: string;
+  withGlossary: boolean;
+}
+
+const BLOCK_SELECTOR = [...BLOCK_ELEMENTS].join(', ');
+
+// Offered as one-click instructions; the model reads them as they are.
+const INSTRUCTION_PRESETS = [
+  { label: '더 직역', instruction: '원문의 문장 구조와 표현을 최대한 따라 더 직역해 주세요.' },
+  { label: '영어 용어 유지', instruction: '영어 전문 용어는 번역하지 말고 영어 그대로 두세요.' },
+  { label: '더 자연스럽게', instruction: '의미는 그대로 두고 더 자연스럽고 읽기 쉽게 옮겨 주세요.' },
+];
+
+const MAX_INSTRUCTION_CHARS = 500;
+
+const isOutermostBlock = (element: Element, root: Node): boolean => {
+  for (let parent = element.parentElement; parent && parent !== root; parent = parent.parentElement) {
+    if (parent.matches(BLOCK_SELECTOR)) return false;
+  }
+  return true;
+};
+
+const outermostBlocks = (root: HTMLElement | DocumentFragment): HTMLElement[] =>
+  [...root.querySelectorAll<HTMLElement>(BLOCK_SELECTOR)].filter(element => isOutermostBlock(element, root));
+
+const hasBlockElement = (html: string): boolean =>
+  tokenizeHtml(html).some(token => token.type === 'open' && BLOCK_ELEMENTS.has(token.name));
+
+// The block elements of a fragment, dropping the container tags splitBlocks attaches to them.
+const blockElementsOf = (html: string): string => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return outermostBlocks(template.content).map(element => element.outerHTML).join('');
+};
+
+/**
+ * Finds the block around `node` in the editor and the source blocks it translates.
+ * Returns null when `node` is not inside a block.
+ */
+export const selectBlock = (node: Node, editor: HTMLElement, sourceHtml: string): BlockSelection | null => {
+  if (!editor.contains(node)) return null;
+  let block: HTMLElement | null = null;
+  for (let element = node instanceof HTMLElement ? node : node.parentElement; element && element !== editor; element = element.parentElement) {
+    if (element.matches(BLOCK_SELECTOR)) block = element;
+  }
+  if (!block) return null;
+
+  const blocks = outermostBlocks(editor);
+  const position = blocks.indexOf(block);
+  let index = -1;
+  for (const pair of alignBlocks(sourceHtml, editor.innerHTML).pairs) {
+    // Each block segment of the translation is one of the editor's outermost blocks, in the same order.
+    const first = index + 1;
+    index += pair.target.filter(hasBlockElement).length;
+    if (position >= first && position <= index) {
+      return { blocks: blocks.slice(first, index + 1), sourceHtml: blockElementsOf(pair.source.join('')) };
+    }
+  }
+  return { blocks: [block], sourceHtml: '' };
+};
+
+interface BlockRetranslationProps {
+  selection: BlockSelection;
+  settings: BlockRetranslationSettings;
+  targetLanguage: TargetLanguage;
+  style?: TranslationStyle;
+  // Replaces the selected blocks with the accepted translation.
+  onAccept: (html: string) => void;
+  onClose: () => void;
+}
+
+// Marks the selected blocks and shows the panel right below them. Positions are read on every render,
+// which follows each edit, since the editor re-renders this component through its content state.
+export const BlockRetranslation: React.FC<BlockRetranslationProps> = ({ selection, settings, targetLanguage, style, onAccept, onClose }) => {
+  const [model, setModel] = useState<AiModel>(() => AI_MODELS.find(candidate => candidate !== settings.model) ?? settings.model);
+  const [instruction, setInstruction] = useState('');
+  const [withGlossary, setWithGlossary] = useState(settings.glossary.length > 0);
+  const [alternatives, setAlternatives] = useState<Alternative[]>([]);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const first = selection.blocks[0];
+  const last = selection.blocks[selection.blocks.length - 1];
+  const top = first.offsetTop;
+  const bottom = last.offsetTop + last.offsetHeight;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const trimmed = instruction.trim();
+      // Asking again with the same options means the cached answer is not wanted.
+      const isRepeat = alternatives.some(other => other.model === model && other.instruction === trimmed && other.withGlossary === withGlossary);
+      const html = await retranslateBlock(selection.sourceHtml, model, targetLanguage, {
+        ...(withGlossary && settings.glossary.length > 0 && { glossary: settings.glossary }),
+        protection: settings.protection,
+        ...(style && { style }),
+        ...(trimmed && { instruction: trimmed }),
+      }, { bypassCache: isRepeat });
+      setAlternatives(current => [...current, { id: Date.now(), html, model, instruction: trimmed, withGlossary }]);
+    } catch (err) {
+      setError((err as Error).message || '블록을 다시 번역하지 못했습니다.');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  return (
+    <>
+      <div
+        className="absolute left-0 right-0 rounded-md ring-2 ring-blue-500/70 bg-blue-500/5 pointer-events-none"
+        style={{ top: top - 4, height: bottom - top + 8 }}
+      />
+      <section
+        className="absolute left-2 right-2 z-10 mt-2 p-3 bg-gray-800 border border-gray-600 rounded-lg shadow-lg space-y-3 text-sm"
+        style={{ top: bottom + 4 }}
+      >
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold text-gray-200">이 블록 다시 번역</h4>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white" aria-label="닫기">✕</button>
+        </div>
+
+        {selection.sourceHtml ? (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+              <label className="flex items-center text-gray-400">
+                <span className="mr-2">모델</span>
+                <select
+                  value={model}
+                  onChange={e => setModel(e.target.value as AiModel)}
+                  className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {AI_MODELS.map(candidate => (
+                    <option key={candidate} value={candidate}>{candidate}{candidate === settings.model ? ' (현재)' : ''}</option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="flex items-center gap-1.5 text-gray-300"
+                title={settings.glossary.length > 0 ? '용어집의 용어를 지켜 번역합니다' : '용어집이 비어 있습니다'}
+              >
+                <input
+                  type="checkbox"
+                  checked={withGlossary}
+                  onChange={e => setWithGlossary(e.target.checked)}
+                  disabled={settings.glossary.length === 0}
+                />
+                용어집 적용
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {INSTRUCTION_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  onClick={() => setInstruction(preset.instruction)}
+                  className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                    instruction === preset.instruction ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                value={instruction}
+                onChange={e => setInstruction(e.target.value)}
+                placeholder="추가 지시 (선택), 예: 'latency'는 번역하지 마세요"
+                maxLength={MAX_INSTRUCTION_CHARS}
+                className="flex-grow bg-gray-900 border border-gray-600 rounded-md px-3 py-1.5 text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={isTranslating}
+                className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-medium min-w-[80px] flex justify-center disabled:bg-gray-500 disabled:cursor-not-allowed"
+              >
+                {isTranslating ? <LoadingSpinner className="w-4 h-4" /> : '다시 번역'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-gray-400">원문에서 이 블록에 해당하는 부분을 찾지 못해 다시 번역할 수 없습니다.</p>
+        )}
+        {error && <p className="text-red-400">{error}</p>}
+
+        {alternatives.length > 0 && (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {alternatives.map(alternative => (
+              <li key={alternative.id} className="p-2 bg-gray-900/70 border border-gray-700 rounded-md">
+                <p className="text-xs text-gray-500 mb-1">
+                  {[alternative.model, alternative.withGlossary && '용어집 적용', alternative.instruction && `"${alternative.instruction}"`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+                <div className="prose-like text-gray-200" dangerouslySetInnerHTML={{ __html: alternative.html }} />
+                <div className="flex justify-end gap-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setAlternatives(current => current.filter(other => other.id !== alternative.id))}
+                    className="px-2 py-0.5 rounded-md text-xs text-gray-400 hover:text-white"
+                  >
+                    버리기
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onAccept(alternative.html)}
+                    className="px-2 py-0.5 rounded-md text-xs bg-green-700 hover:bg-green-600 text-white"
+                  >
+                    적용
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { ChangeEvent, FormEvent, useRef, useState } from 'react';
+import { GlossaryEntry, TARGET_LANGUAGES, TargetLanguage, TargetLanguageLabels } from '../types';
+import { createEntryId, formatGlossaryCsv, formatGlossaryTbx, importGlossaryFile, mergeGlossary } from '../services/glossary';
+import { downloadFile } from '../services/download';
+import { TrashIcon } from './icons';
+
+interface GlossaryPanelProps {
+  glossary: GlossaryEntry[];
+  onChange: (glossary: GlossaryEntry[]) => void;
+}
+
+const inputClassName = 'bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClassName = 'bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors';
+
+// Lists, adds and removes glossary entries and moves them in and out as CSV or TBX files.
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossary, onChange }) => {
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage | ''>('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addEntry = (e: FormEvent) => {
+    e.preventDefault();
+    if (!source.trim() || (!target.trim() && !doNotTranslate)) return;
+    const entry: GlossaryEntry = {
+      id: createEntryId(),
+      source: source.trim(),
+      target: doNotTranslate ? '' : target.trim(),
+      caseSensitive,
+      doNotTranslate,
+      ...(targetLanguage && { targetLanguage }),
+    };
+    onChange(mergeGlossary(glossary, [entry]));
+    setSource('');
+    setTarget('');
+    setMessage(null);
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importGlossaryFile(file);
+      onChange(mergeGlossary(glossary, imported));
+      setMessage(`${imported.length}개 항목을 가져왔습니다.`);
+    } catch (err) {
+      setMessage((err as Error).message);
+    }
+  };
+
+  return (
+    <section className="mb-6 p-4 bg-gray-800/50 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-200">용어집</h2>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+            가져오기 (CSV/TBX)
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.tbx,.xml" onChange={importFile} className="hidden" />
+          <button
+            type="button"
+            disabled={glossary.length === 0}
+            onClick={() => downloadFile(formatGlossaryCsv(glossary), 'glossary.csv', 'text/csv;charset=utf-8')}
+            className={`${buttonClassName} disabled:opacity-50`}
+          >
+            CSV 내보내기
+          </button>
+          <button
+            type="button"
+            disabled={glossary.length === 0}
+            onClick={() => downloadFile(formatGlossaryTbx(glossary), 'glossary.tbx', 'application/x-tbx+xml;charset=utf-8')}
+            className={`${buttonClassName} disabled:opacity-50`}
+          >
+            TBX 내보내기
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400">
+        본문에 나오는 용어만 번역 프롬프트에 들어가며, 번역이 끝나면 지켜지지 않은 용어를 결과 화면에 표시합니다.
+      </p>
+      {message && <p className="text-sm text-blue-300">{message}</p>}
+
+      <form onSubmit={addEntry} className="flex flex-wrap items-center gap-2">
+        <input value={source} onChange={e => setSource(e.target.value)} placeholder="원문 용어" className={`${inputClassName} flex-grow min-w-[8rem]`} />
+        <input
+          value={doNotTranslate ? source : target}
+          onChange={e => setTarget(e.target.value)}
+          disabled={doNotTranslate}
+          placeholder="번역어"
+          className={`${inputClassName} flex-grow min-w-[8rem] disabled:opacity-50`}
+        />
+        <select
+          value={targetLanguage}
+          onChange={e => setTargetLanguage(e.target.value as TargetLanguage | '')}
+          className={inputClassName}
+          aria-label="적용할 번역 언어"
+        >
+          <option value="">모든 언어</option>
+          {TARGET_LANGUAGES.map(language => (
+            <option key={language} value={language}>{TargetLanguageLabels[language]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1.5 text-sm text-gray-300">
+          <input type="checkbox" checked={caseSensitive} onChange={e => setCaseSensitive(e.target.checked)} />
+          대소문자 구분
+        </label>
+        <label className="flex items-center gap-1.5 text-sm text-gray-300">
+          <input type="checkbox" checked={doNotTranslate} onChange={e => setDoNotTranslate(e.target.checked)} />
+          번역하지 않음
+        </label>
+        <button type="submit" className="bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors">
+          추가
+        </button>
+      </form>
+
+      {glossary.length === 0 ? (
+        <p className="text-sm text-gray-500">등록된 용어가 없습니다.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-700 text-sm">
+          {glossary.map(entry => (
+            <li key={entry.id} className="flex items-center justify-between gap-3 py-1.5">
+              <span className="text-gray-200">
+                {entry.source} → {entry.doNotTranslate ? <span className="text-gray-400">(번역하지 않음)</span> : entry.target}
+              </span>
+              <span className="flex items-center gap-1.5 text-xs text-gray-400">
+                {entry.targetLanguage && <span className="bg-gray-700 px-2 py-0.5 rounded-full">{TargetLanguageLabels[entry.targetLanguage]}</span>}
+                {entry.caseSensitive && <span className="bg-gray-700 px-2 py-0.5 rounded-full">Aa</span>}
+                <button
+                  type="button"
+                  onClick={() => onChange(glossary.filter(candidate => candidate.id !== entry.id))}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  aria-label={`${entry.source} 삭제`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
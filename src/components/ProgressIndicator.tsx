@@ -1,17 +1,104 @@
-import React from 'react';
-import { JobStatus, JobStatusMessages } from '../types';
+import React, { useEffect, useState } from 'react';
+import { JobStatus, JobStatusMessages, LlmErrorKindLabels, ProxyAction, ProxyActionLabels, ProxyResponseMeta, StageTimings } from '../types';
+import { estimateStageMs } from '../services/stageHistory';
 import { LoadingSpinner } from './LoadingSpinner';
 
 interface ProgressIndicatorProps {
   status: JobStatus;
   startTime: number | null;
+  stageMeta?: Partial<Record<ProxyAction, ProxyResponseMeta>>;
+  stageTimings?: StageTimings;
+  // Length of the content HTML, once the server knows it.
+  contentLength?: number;
+  // Text jobs start at language detection; URL jobs fetch the page first.
+  hasExtraction?: boolean;
+  onCancel?: () => void;
 }
 
-export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ status, startTime }) => {
+// Pipeline steps in order; the two translations of the last step run side by side.
+const STEPS: ProxyAction[][] = [['fetchUrl'], ['detectLanguage'], ['performAnalysis'], ['translateAnalysis', 'performTranslation']];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}초`;
+
+const formatEta = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `약 ${seconds}초` : `약 ${Math.floor(seconds / 60)}분 ${seconds % 60}초`;
+};
+
+// Remaining time from local history, or undefined while some pending stage has never been timed.
+const estimateRemainingMs = (steps: ProxyAction[][], timings: StageTimings, contentLength: number | undefined, now: number) => {
+  let remaining = 0;
+  for (const step of steps) {
+    let stepRemaining = 0;
+    for (const action of step) {
+      const timing = timings[action];
+      if (timing?.endedAt) continue;
+      const estimate = estimateStageMs(action, contentLength);
+      if (estimate === undefined) return undefined;
+      stepRemaining = Math.max(stepRemaining, estimate - (timing ? now - timing.startedAt : 0));
+    }
+    remaining += Math.max(0, stepRemaining);
+  }
+  return remaining;
+};
+
+export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
+  status, startTime, stageMeta = {}, stageTimings = {}, contentLength, hasExtraction = true, onCancel,
+}) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const steps = hasExtraction ? STEPS : STEPS.slice(1);
+  const remainingMs = estimateRemainingMs(steps, stageTimings, contentLength, now);
+
   return (
     <div className="w-full text-center p-8 bg-gray-800/50 rounded-lg flex flex-col items-center justify-center space-y-4">
       <LoadingSpinner startTime={startTime} />
       <p className="text-lg font-medium text-gray-300">{JobStatusMessages[status]}</p>
+      {remainingMs !== undefined && (
+        <p className="text-sm text-gray-400">남은 예상 시간: {formatEta(remainingMs)}</p>
+      )}
+      <ol className="w-full max-w-sm space-y-1.5 text-sm text-left">
+        {steps.flat().map(action => {
+          const timing = stageTimings[action];
+          const meta = stageMeta[action];
+          const isDone = !!timing?.endedAt;
+          const isRunning = !!timing && !isDone;
+          return (
+            <li key={action} className="flex items-center justify-between gap-3">
+              <span className={isDone ? 'text-gray-300' : isRunning ? 'text-blue-300 font-medium' : 'text-gray-500'}>
+                {isDone ? '✓' : isRunning ? '›' : '·'} {ProxyActionLabels[action]}
+              </span>
+              <span className="flex items-center gap-1.5 text-xs">
+                {meta?.cached && <span className="bg-green-900/40 text-green-300 px-2 py-0.5 rounded-full">캐시 사용</span>}
+                {meta?.resumed && <span className="bg-blue-900/40 text-blue-300 px-2 py-0.5 rounded-full">이전 결과 사용</span>}
+                {!!meta?.retries && (
+                  <span className="bg-yellow-900/40 text-yellow-300 px-2 py-0.5 rounded-full">
+                    {meta.retries}회 재시도{meta.lastErrorKind && ` (${LlmErrorKindLabels[meta.lastErrorKind]})`}
+                  </span>
+                )}
+                {timing && (
+                  <span className={isDone ? 'text-gray-400' : 'text-blue-300'}>
+                    {formatSeconds((timing.endedAt ?? now) - timing.startedAt)}
+                  </span>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 px-4 rounded-lg transition-colors"
+        >
+          취소 <span className="text-xs text-gray-400">(Esc)</span>
+        </button>
+      )}
     </div>
   );
 };
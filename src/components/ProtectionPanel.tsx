@@ -0,0 +1,99 @@
+import React, { FormEvent, useState } from 'react';
+import { PROTECTED_CATEGORIES, ProtectedCategory, ProtectedCategoryLabels, ProtectionSettings } from '../types';
+import { compileProtectionPattern } from '../core/protection';
+import { TrashIcon } from './icons';
+
+interface ProtectionPanelProps {
+  settings: ProtectionSettings;
+  onChange: (settings: ProtectionSettings) => void;
+}
+
+// Mirrors the server's limit on user-defined patterns (see api/_lib/validation.ts).
+const MAX_PATTERNS = 20;
+
+const inputClassName = 'bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-100 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Chooses what is kept out of the model's hands during translation: built-in categories and the user's own regular expressions.
+export const ProtectionPanel: React.FC<ProtectionPanelProps> = ({ settings, onChange }) => {
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCategory = (category: ProtectedCategory, enabled: boolean) => {
+    const categories = new Set(settings.categories);
+    if (enabled) categories.add(category);
+    else categories.delete(category);
+    onChange({ ...settings, categories: PROTECTED_CATEGORIES.filter(candidate => categories.has(candidate)) });
+  };
+
+  const addPattern = (e: FormEvent) => {
+    e.preventDefault();
+    if (!pattern || settings.patterns.includes(pattern)) return;
+    try {
+      compileProtectionPattern(pattern);
+    } catch (err) {
+      setError(`올바른 정규식이 아닙니다: ${(err as Error).message}`);
+      return;
+    }
+    onChange({ ...settings, patterns: [...settings.patterns, pattern] });
+    setPattern('');
+    setError(null);
+  };
+
+  return (
+    <section className="mb-6 p-4 bg-gray-800/50 rounded-lg space-y-4">
+      <h2 className="text-lg font-semibold text-gray-200">보호 규칙</h2>
+      <p className="text-xs text-gray-400">
+        선택한 내용은 자리표시자로 바꿔 모델에 보내고, 번역이 끝나면 원래대로 되돌립니다. 자리표시자가 빠진 구간은 보호 없이 다시 번역합니다.
+      </p>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {PROTECTED_CATEGORIES.map(category => (
+          <label key={category} className="flex items-center gap-1.5 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.categories.includes(category)}
+              onChange={e => toggleCategory(category, e.target.checked)}
+            />
+            {ProtectedCategoryLabels[category]}
+          </label>
+        ))}
+      </div>
+
+      <form onSubmit={addPattern} className="flex flex-wrap items-center gap-2">
+        <input
+          value={pattern}
+          onChange={e => setPattern(e.target.value)}
+          placeholder="정규식, 예: [A-Z]+-\d+"
+          maxLength={200}
+          className={`${inputClassName} flex-grow min-w-[12rem]`}
+        />
+        <button
+          type="submit"
+          disabled={settings.patterns.length >= MAX_PATTERNS}
+          className="bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold py-1.5 px-3 rounded-lg transition-colors disabled:opacity-50"
+        >
+          추가
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {settings.patterns.length > 0 && (
+        <ul className="divide-y divide-gray-700 text-sm">
+          {settings.patterns.map(candidate => (
+            <li key={candidate} className="flex items-center justify-between gap-3 py-1.5">
+              <code className="text-gray-200 break-all">{candidate}</code>
+              <button
+                type="button"
+                onClick={() => onChange({ ...settings, patterns: settings.patterns.filter(other => other !== candidate) })}
+                className="p-1 text-gray-400 hover:text-red-400"
+                aria-label={`${candidate} 삭제`}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
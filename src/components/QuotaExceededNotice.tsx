@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from './icons';
+
+interface QuotaExceededNoticeProps {
+  message: string;
+  guidance: string;
+  // Epoch ms after which the server accepts requests again.
+  retryAt: number;
+  onRetry: () => void;
+  onReset: () => void;
+}
+
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}초`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.ceil((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}시간 ${minutes}분` : `${minutes}분`;
+};
+
+// Shown instead of the generic error view when this deployment's request or daily limits were hit.
+export const QuotaExceededNotice: React.FC<QuotaExceededNoticeProps> = ({ message, guidance, retryAt, onRetry, onReset }) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)));
+
+  useEffect(() => {
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  return (
+    <div className="text-center p-8 bg-yellow-900/20 rounded-lg animate-fade-in">
+      <h3 className="text-xl font-semibold text-yellow-400">사용 한도 초과</h3>
+      <p className="mt-2 text-yellow-200">{message}</p>
+      <p className="mt-4 text-gray-300">{guidance}</p>
+      <p className="mt-4 flex items-center justify-center text-sm text-gray-400">
+        <ClockIcon className="w-4 h-4 mr-1.5" />
+        {secondsLeft > 0 ? `${formatWait(secondsLeft)} 후 다시 시도할 수 있습니다.` : '지금 다시 시도할 수 있습니다.'}
+      </p>
+      <div className="mt-6 flex justify-center gap-3">
+        <button
+          onClick={onRetry}
+          disabled={secondsLeft > 0}
+          className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors"
+        >
+          다시 시도
+        </button>
+        <button onClick={onReset} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          새로 시작하기
+        </button>
+      </div>
+    </div>
+  );
+};
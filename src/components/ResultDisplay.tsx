@@ -1,11 +1,28 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { JobResult } from '../types';
+import {
+    AudienceLabels, FidelityLabels, FormalityLabels, GlossaryViolation, JobResult, KoreanRegisterLabels, LanguageDetection, ProxyAction,
+    ProxyActionLabels, StructureIssue, TranslationStyle, UsageSummary,
+} from '../types';
 import { ClockIcon, LinkIcon, CopyIcon, WandIcon } from './icons';
 import { enhanceReadability } from '../services/apiService';
 import { LoadingSpinner } from './LoadingSpinner';
+import { BilingualView } from './BilingualView';
+import { BlockRetranslation, BlockRetranslationSettings, BlockSelection, selectBlock } from './BlockRetranslation';
+import { toWellFormedPrefix } from '../core/html';
 
 interface ResultDisplayProps {
   result: JobResult;
+  // Set while the job is still running: the parts of `result` that are not final yet.
+  pending?: {
+    // The analysis is shown in the source language until its translation arrives.
+    analysis: boolean;
+    // `result.outputs.fullTranslation` is still being streamed and may end mid-tag.
+    translation: boolean;
+  };
+  // Re-runs the job with the source language chosen by the user instead of the detected one.
+  onSourceLanguageChange?: (language: string) => void;
+  // Lets a block of the editable tab be translated again; absent while the job is running.
+  retranslation?: BlockRetranslationSettings;
 }
 
 // Utility function moved from utils/export.ts to simplify file structure.
@@ -17,7 +34,7 @@ const copyToClipboard = (text: string) => {
     });
 };
 
-type TabType = 'original' | 'translation' | 'editable';
+type TabType = 'original' | 'translation' | 'bilingual' | 'editable';
 
 // Helper function to create a clean, text-focused HTML for editing
 const createEditableHtml = (htmlString: string): string => {
@@ -65,23 +82,204 @@ const PointList: React.FC<{ items: string[] }> = ({ items }) => (
     </ul>
 );
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
+const formatTokens = (usage: UsageSummary) =>
+    (usage.promptTokens + usage.candidatesTokens + usage.thinkingTokens).toLocaleString();
+
+const formatCost = (usd: number) => usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+// Total tokens and estimated cost, with the per-stage breakdown on hover.
+const UsageBadge: React.FC<{ usage: NonNullable<JobResult['usage']> }> = ({ usage }) => {
+    const [isBreakdownVisible, setIsBreakdownVisible] = useState(false);
+    const stages = Object.entries(usage.stages) as [ProxyAction, UsageSummary][];
+
+    return (
+        <div
+            className="relative flex items-center cursor-default"
+            onMouseEnter={() => setIsBreakdownVisible(true)}
+            onMouseLeave={() => setIsBreakdownVisible(false)}
+        >
+            <span>토큰 {formatTokens(usage.total)} · 예상 비용 {formatCost(usage.total.estimatedCostUsd)}</span>
+            {isBreakdownVisible && stages.length > 0 && (
+                <div className="absolute top-full left-0 mt-2 p-3 bg-gray-700 text-gray-200 text-xs rounded-lg shadow-lg z-10 whitespace-nowrap">
+                    <table>
+                        <thead>
+                            <tr className="text-gray-400">
+                                <th className="text-left font-medium pr-4">단계</th>
+                                <th className="text-right font-medium pr-4">입력</th>
+                                <th className="text-right font-medium pr-4">출력</th>
+                                <th className="text-right font-medium pr-4">사고</th>
+                                <th className="text-right font-medium">비용</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {stages.map(([action, stage]) => (
+                                <tr key={action}>
+                                    <td className="pr-4">{ProxyActionLabels[action]}</td>
+                                    <td className="text-right pr-4">{stage.promptTokens.toLocaleString()}</td>
+                                    <td className="text-right pr-4">{stage.candidatesTokens.toLocaleString()}</td>
+                                    <td className="text-right pr-4">{stage.thinkingTokens.toLocaleString()}</td>
+                                    <td className="text-right">{formatCost(stage.estimatedCostUsd)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="mt-2 text-gray-400">캐시에서 가져온 단계는 포함되지 않습니다.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const languageNames = new Intl.DisplayNames(['ko'], { type: 'language' });
+
+const languageName = (code: string) => code === 'und' ? '알 수 없음' : languageNames.of(code) ?? code;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const DetectionSourceLabels: Record<LanguageDetection['source'], string> = {
+    local: '자동 감지',
+    llm: 'AI 감지',
+    user: '직접 지정',
+};
+
+// Offered when overriding the detection, after the detected candidates.
+const OVERRIDE_LANGUAGES = ['ko', 'en', 'ja', 'zh', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'ru'];
+
+// Detected source language with its confidence; the detection can be corrected and the job run again.
+const SourceLanguageBadge: React.FC<{ detection: LanguageDetection; onChange?: (language: string) => void }> = ({ detection, onChange }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [selected, setSelected] = useState(detection.language);
+    const options = [...new Set([...detection.candidates.map(candidate => candidate.language), ...OVERRIDE_LANGUAGES])];
+    const candidateSummary = detection.candidates
+        .slice(0, 3)
+        .map(candidate => `${languageName(candidate.language)} ${formatPercent(candidate.confidence)}`)
+        .join(' · ');
+
+    return (
+        <div className="flex items-center gap-2">
+            <span title={candidateSummary && `후보: ${candidateSummary}`}>
+                원문: {languageName(detection.language)}
+                <span className="text-gray-500">
+                    {' '}({DetectionSourceLabels[detection.source]}{detection.source !== 'user' && ` · 신뢰도 ${formatPercent(detection.confidence)}`})
+                </span>
+            </span>
+            {detection.mixed && (
+                <span className="bg-yellow-900/40 text-yellow-300 text-xs px-2 py-0.5 rounded-full">
+                    혼합 언어: {detection.mixed.map(entry => `${languageName(entry.language)} ${formatPercent(entry.share)}`).join(' · ')}
+                </span>
+            )}
+            {onChange && !isEditing && (
+                <button onClick={() => setIsEditing(true)} className="text-xs text-blue-400 hover:text-blue-300 underline">
+                    변경
+                </button>
+            )}
+            {onChange && isEditing && (
+                <>
+                    <select
+                        value={selected}
+                        onChange={(e) => setSelected(e.target.value)}
+                        className="bg-gray-700 border border-gray-600 rounded-md px-1.5 py-0.5 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                        {options.map(language => <option key={language} value={language}>{languageName(language)}</option>)}
+                    </select>
+                    <button
+                        onClick={() => onChange(selected)}
+                        disabled={selected === detection.language}
+                        className="text-xs px-2 py-0.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        다시 실행
+                    </button>
+                    <button onClick={() => setIsEditing(false)} className="text-xs text-gray-400 hover:text-white">
+                        취소
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Glossary terms the model did not render as asked; shown as warnings, the result is kept as it is.
+const GlossaryViolationList: React.FC<{ violations: GlossaryViolation[] }> = ({ violations }) => (
+    <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-md text-sm">
+        <p className="font-medium text-yellow-300">용어집과 다르게 번역된 용어 {violations.length}개</p>
+        <ul className="mt-2 space-y-1 text-gray-300">
+            {violations.map(violation => (
+                <li key={`${violation.stage}-${violation.source}`}>
+                    <span className="text-gray-400">[{ProxyActionLabels[violation.stage]}]</span>{' '}
+                    "{violation.source}" → "{violation.expected}"
+                    <span className="text-gray-500"> (원문 {violation.sourceCount}회, 번역 {violation.outputCount}회)</span>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+// The chosen style options in one line, e.g. "합쇼체 (-습니다) · 격식 · 전문가".
+const formatStyle = (style: TranslationStyle) => [
+    style.register && KoreanRegisterLabels[style.register],
+    style.formality && FormalityLabels[style.formality],
+    style.audience && AudienceLabels[style.audience],
+    style.fidelity && FidelityLabels[style.fidelity],
+].filter(Boolean).join(' · ');
+
+const STRUCTURE_ISSUE_LABELS: Record<StructureIssue['kind'], string> = {
+    blocks: '블록',
+    tags: '태그',
+    links: '링크',
+    code: '코드',
+};
+
+const formatValues = (values: string[]) => values.map(value => `"${value}"`).join(', ');
+
+// Structural differences the automatic re-translation could not fix, by source block.
+const StructureIssueList: React.FC<{ issues: StructureIssue[] }> = ({ issues }) => (
+    <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-md text-sm">
+        <p className="font-medium text-yellow-300">원문과 HTML 구조가 다른 곳 {issues.length}개</p>
+        <ul className="mt-2 space-y-1 text-gray-300 max-h-48 overflow-y-auto">
+            {issues.map((issue, index) => (
+                <li key={index}>
+                    <span className="text-gray-400">[{STRUCTURE_ISSUE_LABELS[issue.kind]} · {issue.block + 1}번째 블록]</span>{' '}
+                    {issue.excerpt && <span className="text-gray-500">"{issue.excerpt}" </span>}
+                    {issue.missing.length > 0 && <span>빠짐: {formatValues(issue.missing)}</span>}
+                    {issue.missing.length > 0 && issue.extra.length > 0 && ' / '}
+                    {issue.extra.length > 0 && <span>추가됨: {formatValues(issue.extra)}</span>}
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, pending, onSourceLanguageChange, retranslation }) => {
+  const isStreaming = !!pending?.translation;
   const [copyButtonText, setCopyButtonText] = useState('내용 복사');
   const [activeTab, setActiveTab] = useState<TabType>('translation');
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [editableContent, setEditableContent] = useState('');
+  // Numbered so the panel of a new selection starts without the alternatives of the previous one.
+  const [selectedBlock, setSelectedBlock] = useState<(BlockSelection & { id: number }) | null>(null);
+  const selectionCount = useRef(0);
   const editableDivRef = useRef<HTMLDivElement>(null);
 
-  // Effect 1: Runs ONLY when a new result comes in.
-  // It resets the state and prepares the editable content in the background.
+  // Effect 1: Runs ONLY when a new document comes in (not on every streamed chunk).
+  // It resets the tab and copy button state.
   useEffect(() => {
-    if (result) {
-      setActiveTab('translation'); // Reset to the default tab
-      setCopyButtonText('내용 복사');
+    setActiveTab('translation'); // Reset to the default tab
+    setCopyButtonText('내용 복사');
+  }, [result.originalContent]);
+
+  // Prepares the editable content in the background once the translation is complete.
+  useEffect(() => {
+    if (!isStreaming) {
       const cleanHtml = createEditableHtml(result.outputs.fullTranslation);
       setEditableContent(cleanHtml);
+      setSelectedBlock(null);
     }
-  }, [result]);
+  }, [result.outputs.fullTranslation, isStreaming]);
+
+  // While streaming, only a well-formed prefix of the partial HTML may reach the DOM.
+  const translationHtml = isStreaming
+    ? toWellFormedPrefix(result.outputs.fullTranslation)
+    : result.outputs.fullTranslation;
   
   // Effect 2: Synchronizes the content of the editable div.
   // This runs when the active tab changes, ensuring the div is populated when it becomes visible.
@@ -97,6 +295,26 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
     }
   }, [activeTab, editableContent]); // Reruns when the tab or the base content changes
 
+  // Selects the block that was clicked. Clicking within the selected blocks keeps the selection and its alternatives.
+  const handleEditableClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!retranslation) return;
+    if (selectedBlock?.blocks.some(block => block.contains(e.target as Node))) return;
+    const selection = selectBlock(e.target as Node, e.currentTarget, result.originalContent);
+    setSelectedBlock(selection && { ...selection, id: ++selectionCount.current });
+  };
+
+  // Swaps only the selected blocks for the accepted translation; the rest of the edited content stays as it is.
+  const acceptRetranslation = (html: string) => {
+    if (!selectedBlock || !editableDivRef.current) return;
+    const [first, ...rest] = selectedBlock.blocks;
+    const template = document.createElement('template');
+    template.innerHTML = createEditableHtml(html);
+    first.replaceWith(template.content);
+    rest.forEach(block => block.remove());
+    setSelectedBlock(null);
+    setEditableContent(editableDivRef.current.innerHTML);
+  };
+
   const handleCopy = async () => {
     try {
       let contentToCopyHtml: string;
@@ -105,7 +323,8 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
           contentToCopyHtml = result.originalContent;
           break;
         case 'translation':
-          contentToCopyHtml = result.outputs.fullTranslation;
+        case 'bilingual':
+          contentToCopyHtml = translationHtml;
           break;
         case 'editable':
           // The state `editableContent` is kept up-to-date by the onInput event
@@ -143,7 +362,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
     // 2. Write placeholder/loading content to the new window
     const loadingContent = `
       <!DOCTYPE html>
-      <html lang="ko" class="dark">
+      <html lang="${result.targetLanguage}" class="dark">
       <head>
           <meta charset="UTF-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -229,7 +448,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
   
     try {
       // 3. Make the API call using the current editable content
-      const enhancedHtml = await enhanceReadability(editableContent);
+      const enhancedHtml = await enhanceReadability(editableContent, result.targetLanguage);
       
       // 4. Update the new window with the final content
       newWindow.document.title = result.title;
@@ -329,10 +548,11 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
     }
   };
 
-  const TabButton: React.FC<{tab: TabType, label: string}> = ({ tab, label }) => (
+  const TabButton: React.FC<{tab: TabType, label: string, disabled?: boolean}> = ({ tab, label, disabled }) => (
     <button
         onClick={() => setActiveTab(tab)}
-        className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap flex-shrink-0 ${
+        disabled={disabled}
+        className={`px-4 py-2 text-sm font-medium transition-colors whitespace-nowrap flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed ${
             activeTab === tab
                 ? 'border-b-2 border-blue-500 text-white'
                 : 'text-gray-400 hover:text-white border-b-2 border-transparent'
@@ -350,8 +570,16 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
             <div className="flex flex-col items-start md:flex-row md:items-center space-y-2 md:space-y-0 md:space-x-4 text-sm text-gray-400 mt-2">
                 <div className="flex items-center">
                     <ClockIcon className="w-4 h-4 mr-1" />
-                    <span>총 처리 시간: {result.processingTime.total.toFixed(2)}초</span>
+                    {pending
+                      ? <span>번역 진행 중...</span>
+                      : <span>총 처리 시간: {result.processingTime.total.toFixed(2)}초</span>}
                 </div>
+                {result.usage && !pending && <UsageBadge usage={result.usage} />}
+                <SourceLanguageBadge
+                    detection={result.sourceLanguage}
+                    onChange={pending ? undefined : onSourceLanguageChange}
+                />
+                {result.style && <span title="요약과 번역에 적용한 스타일">스타일: {formatStyle(result.style)}</span>}
                 {result.originalUrl && (
                   <a href={result.originalUrl} target="_blank" rel="noopener noreferrer" className="flex items-center hover:text-blue-400 transition-colors">
                       <LinkIcon className="w-4 h-4 mr-1" />
@@ -363,6 +591,13 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
       </header>
       
       <div className="overflow-y-auto p-4 flex-grow space-y-6">
+        {pending?.analysis && (
+            <div className="flex items-center text-sm text-gray-400">
+                <LoadingSpinner className="w-4 h-4 mr-2" />
+                <span>요약을 번역하는 중입니다. 번역이 끝날 때까지 원문 언어로 표시합니다.</span>
+            </div>
+        )}
+        {!!result.glossaryViolations?.length && <GlossaryViolationList violations={result.glossaryViolations} />}
         <AnalysisSection title="한 줄 요약">
             <p className="p-3 bg-gray-900/50 rounded-md text-gray-200">{result.outputs.oneLineSummary}</p>
         </AnalysisSection>
@@ -381,18 +616,21 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
         </div>
 
         <div className="bg-gray-900/50 rounded-lg overflow-hidden">
-            <h3 className="p-3 font-medium text-gray-200">
+            <h3 className="p-3 font-medium text-gray-200 flex items-center">
                 전체 내용 보기
+                {isStreaming && <LoadingSpinner className="w-4 h-4 ml-2" />}
             </h3>
             <div className="p-4 border-t border-gray-700">
                 <div className="border-b border-gray-600 mb-4">
                     <div className="flex overflow-x-auto">
                         <TabButton tab="original" label="원본 HTML" />
                         <TabButton tab="translation" label="번역 HTML" />
-                        <TabButton tab="editable" label="편집용 HTML" />
+                        <TabButton tab="bilingual" label="대조 보기" disabled={isStreaming} />
+                        <TabButton tab="editable" label="편집용 HTML" disabled={isStreaming} />
                     </div>
                 </div>
                  <div className="flex flex-col space-y-2">
+                    {!isStreaming && !!result.structureIssues?.length && <StructureIssueList issues={result.structureIssues} />}
                     <div className="flex justify-end items-center space-x-2">
                         {activeTab === 'editable' && (
                             <button
@@ -429,20 +667,48 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result }) => {
                         />
                       )}
                       {activeTab === 'translation' && (
-                        <div 
-                          className="prose-like p-2"
-                          dangerouslySetInnerHTML={{ __html: result.outputs.fullTranslation }} 
-                        />
+                        <>
+                          <div 
+                            className="prose-like p-2"
+                            dangerouslySetInnerHTML={{ __html: translationHtml }} 
+                          />
+                          {isStreaming && (
+                            <div className="flex items-center p-2 text-sm text-gray-400">
+                              <LoadingSpinner className="w-4 h-4 mr-2" />
+                              <span>{translationHtml ? '번역 수신 중...' : '전체 번역을 기다리는 중...'}</span>
+                            </div>
+                          )}
+                        </>
+                      )}
+                      {activeTab === 'bilingual' && (
+                        <BilingualView sourceHtml={result.originalContent} translationHtml={translationHtml} />
                       )}
                       {activeTab === 'editable' && (
-                        <div
-                          ref={editableDivRef}
-                          className="prose-like p-2 min-h-[10rem] focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          contentEditable={true}
-                          suppressContentEditableWarning={true}
-                          onInput={(e) => setEditableContent(e.currentTarget.innerHTML)}
-                          // The content is now set imperatively via useEffect to prevent cursor jumps
-                        />
+                        <div className="relative">
+                          {retranslation && (
+                            <p className="px-2 pb-2 text-xs text-gray-500">블록을 클릭하면 그 블록만 다시 번역할 수 있습니다.</p>
+                          )}
+                          <div
+                            ref={editableDivRef}
+                            className="prose-like p-2 min-h-[10rem] focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            contentEditable={true}
+                            suppressContentEditableWarning={true}
+                            onInput={(e) => setEditableContent(e.currentTarget.innerHTML)}
+                            onClick={handleEditableClick}
+                            // The content is now set imperatively via useEffect to prevent cursor jumps
+                          />
+                          {retranslation && selectedBlock?.blocks.every(block => block.isConnected) && (
+                            <BlockRetranslation
+                              key={selectedBlock.id}
+                              selection={selectedBlock}
+                              settings={retranslation}
+                              targetLanguage={result.targetLanguage}
+                              style={result.style}
+                              onAccept={acceptRetranslation}
+                              onClose={() => setSelectedBlock(null)}
+                            />
+                          )}
+                        </div>
                       )}
                     </div>
                 </div>
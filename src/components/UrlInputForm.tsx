@@ -1,5 +1,8 @@
 import React, { useState, FormEvent, useEffect, useRef } from 'react';
-import { AiModel } from '../types';
+import {
+  AiModel, AUDIENCES, AudienceLabels, FIDELITIES, FidelityLabels, FORMALITIES, FormalityLabels, KOREAN_REGISTERS, KoreanRegisterLabels,
+  TARGET_LANGUAGES, TargetLanguage, TargetLanguageLabels, TranslationStyle,
+} from '../types';
 import { ClearIcon, InfoIcon } from './icons';
 
 export type InputMode = 'url' | 'text';
@@ -11,8 +14,42 @@ interface UrlInputFormProps {
   onReset: () => void;
   model: AiModel;
   onModelChange: (model: AiModel) => void;
+  bypassCache: boolean;
+  onBypassCacheChange: (bypassCache: boolean) => void;
+  targetLanguage: TargetLanguage;
+  onTargetLanguageChange: (language: TargetLanguage) => void;
+  translationStyle: TranslationStyle;
+  onTranslationStyleChange: (style: TranslationStyle) => void;
 }
 
+const selectClassName = 'bg-gray-700 border border-gray-600 rounded-md px-2 py-1.5 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+// One style option; the empty choice leaves it to the model.
+const StyleSelect = <T extends string>({ label, title, value, values, labels, disabled, onChange }: {
+  label: string;
+  title: string;
+  value: T | undefined;
+  values: readonly T[];
+  labels: Record<T, string>;
+  disabled: boolean;
+  onChange: (value: T | undefined) => void;
+}) => (
+    <label className="flex items-center text-sm text-gray-400" title={title}>
+        <span className="mr-2 whitespace-nowrap">{label}</span>
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange((e.target.value || undefined) as T | undefined)}
+            disabled={disabled}
+            className={selectClassName}
+        >
+            <option value="">자동</option>
+            {values.map(option => (
+                <option key={option} value={option}>{labels[option]}</option>
+            ))}
+        </select>
+    </label>
+);
+
 const ModelTooltip: React.FC = () => (
     <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 p-3 bg-gray-700 text-gray-200 text-sm rounded-lg shadow-lg z-10 pointer-events-none">
         <p className="font-bold text-white">Flash-lite (빠름)</p>
@@ -23,7 +60,10 @@ const ModelTooltip: React.FC = () => (
 );
 
 
-export const UrlInputForm: React.FC<UrlInputFormProps> = ({ initialValue, onSubmit, isProcessing, onReset, model, onModelChange }) => {
+export const UrlInputForm: React.FC<UrlInputFormProps> = ({
+  initialValue, onSubmit, isProcessing, onReset, model, onModelChange, bypassCache, onBypassCacheChange, targetLanguage, onTargetLanguageChange,
+  translationStyle, onTranslationStyleChange,
+}) => {
   const [inputValue, setInputValue] = useState(initialValue);
   const [mode, setMode] = useState<InputMode>('url');
   const [isTooltipVisible, setIsTooltipVisible] = useState(false);
@@ -130,6 +170,29 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ initialValue, onSubm
         >
           초기화
         </button>
+        <label className="flex items-center text-sm text-gray-400 cursor-pointer select-none" title="저장된 결과를 사용하지 않고 다시 분석합니다">
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => onBypassCacheChange(e.target.checked)}
+            disabled={isProcessing}
+            className="mr-2 accent-blue-600"
+          />
+          캐시 무시
+        </label>
+        <label className="flex items-center text-sm text-gray-400" title="요약과 번역에 사용할 언어입니다. 이미 이 언어로 된 내용은 번역하지 않습니다">
+          <span className="mr-2 whitespace-nowrap">번역 언어</span>
+          <select
+            value={targetLanguage}
+            onChange={(e) => onTargetLanguageChange(e.target.value as TargetLanguage)}
+            disabled={isProcessing}
+            className={selectClassName}
+          >
+            {TARGET_LANGUAGES.map(language => (
+              <option key={language} value={language}>{TargetLanguageLabels[language]}</option>
+            ))}
+          </select>
+        </label>
         <div className="w-full md:w-auto flex items-center space-x-1 p-1 bg-gray-700/50 rounded-lg">
             <button
                 type="button"
@@ -160,6 +223,45 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ initialValue, onSubm
             </div>
         </div>
       </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-x-4 gap-y-2">
+        <StyleSelect
+          label="문체"
+          title="한국어로 번역할 때의 종결 어미입니다"
+          value={translationStyle.register}
+          values={KOREAN_REGISTERS}
+          labels={KoreanRegisterLabels}
+          disabled={isProcessing || targetLanguage !== 'ko'}
+          onChange={register => onTranslationStyleChange({ ...translationStyle, register })}
+        />
+        <StyleSelect
+          label="격식"
+          title="요약과 번역의 어조입니다"
+          value={translationStyle.formality}
+          values={FORMALITIES}
+          labels={FormalityLabels}
+          disabled={isProcessing}
+          onChange={formality => onTranslationStyleChange({ ...translationStyle, formality })}
+        />
+        <StyleSelect
+          label="독자"
+          title="번역을 읽을 사람에 맞춰 용어와 표현을 고릅니다"
+          value={translationStyle.audience}
+          values={AUDIENCES}
+          labels={AudienceLabels}
+          disabled={isProcessing}
+          onChange={audience => onTranslationStyleChange({ ...translationStyle, audience })}
+        />
+        <StyleSelect
+          label="번역 방식"
+          title="직역은 원문의 문장 구조를 따르고, 의역은 자연스러운 표현을 우선합니다"
+          value={translationStyle.fidelity}
+          values={FIDELITIES}
+          labels={FidelityLabels}
+          disabled={isProcessing}
+          onChange={fidelity => onTranslationStyleChange({ ...translationStyle, fidelity })}
+        />
+      </div>
     </form>
   );
 };
@@ -0,0 +1,146 @@
+import { BLOCK_ELEMENTS, splitBlocks } from './chunking';
+import { htmlToText, tokenizeHtml } from './html';
+
+// Pairs the blocks of a document with the blocks of its translation for the side-by-side view.
+// The model is asked to keep the structure, so blocks usually pair up one to one; when it merged or split
+// blocks, a length-based alignment in the manner of Gale & Church finds the most plausible grouping.
+
+export interface AlignedPair {
+  // Block HTML; one block on each side for a one-to-one pair, two on one side where blocks were merged or split,
+  // none on one side where a block has no counterpart.
+  source: string[];
+  target: string[];
+  // How plausible the pairing is, from 0 to 1
+  confidence: number;
+}
+
+export interface Alignment {
+  pairs: AlignedPair[];
+  // Text-length weighted average of the pair confidences
+  confidence: number;
+  sourceBlocks: number;
+  targetBlocks: number;
+}
+
+// Pairs below this confidence are marked as uncertain in the view.
+export const LOW_ALIGNMENT_CONFIDENCE = 0.5;
+
+// Above this many blocks on both sides multiplied, blocks are paired by position instead (the alignment is quadratic).
+const MAX_ALIGNMENT_CELLS = 250_000;
+
+// Cost of each pairing shape, on top of the length and tag mismatch.
+const MOVES: { source: number; target: number; cost: number }[] = [
+  { source: 1, target: 1, cost: 0 },
+  { source: 2, target: 1, cost: 1 },
+  { source: 1, target: 2, cost: 1 },
+  { source: 1, target: 0, cost: 3 },
+  { source: 0, target: 1, cost: 3 },
+];
+// Added when paired blocks are different elements, e.g. a heading against a paragraph.
+const TAG_MISMATCH_COST = 1.5;
+// Damps the length ratio of short blocks, where a few characters more or less mean little.
+const LENGTH_SMOOTHING = 10;
+
+interface Block {
+  html: string;
+  tag: string;
+  length: number;
+}
+
+const toBlocks = (html: string): Block[] =>
+  splitBlocks(html)
+    .filter(block => block.trim())
+    .map(block => {
+      const tag = tokenizeHtml(block).find(token => token.type === 'open' && BLOCK_ELEMENTS.has(token.name));
+      return { html: block, tag: tag?.type === 'open' ? tag.name : '', length: htmlToText(block).trim().length };
+    });
+
+const groupCost = (sources: Block[], targets: Block[], expectedRatio: number): number => {
+  if (sources.length === 0 || targets.length === 0) return 0;
+  const sourceLength = sources.reduce((sum, block) => sum + block.length, 0);
+  const targetLength = targets.reduce((sum, block) => sum + block.length, 0);
+  const lengthCost = Math.abs(Math.log((targetLength + LENGTH_SMOOTHING) / (sourceLength * expectedRatio + LENGTH_SMOOTHING)));
+  return lengthCost + (sources[0].tag !== targets[0].tag ? TAG_MISMATCH_COST : 0);
+};
+
+const summarize = (pairs: AlignedPair[], sourceBlocks: Block[], targetBlocks: Block[]): Alignment => {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const pair of pairs) {
+    const weight = Math.max(1, htmlToText(pair.source.join('')).length);
+    weighted += pair.confidence * weight;
+    totalWeight += weight;
+  }
+  return {
+    pairs,
+    confidence: totalWeight ? Math.round((weighted / totalWeight) * 100) / 100 : 1,
+    sourceBlocks: sourceBlocks.length,
+    targetBlocks: targetBlocks.length,
+  };
+};
+
+// Position-based pairing for documents too large to align; leftover blocks are left without a counterpart.
+const alignByPosition = (sources: Block[], targets: Block[], expectedRatio: number): AlignedPair[] =>
+  Array.from({ length: Math.max(sources.length, targets.length) }, (_, index) => {
+    const source = sources.slice(index, index + 1);
+    const target = targets.slice(index, index + 1);
+    const confidence = source.length && target.length && sources.length === targets.length
+      ? Math.round(Math.exp(-groupCost(source, target, expectedRatio)) * 100) / 100
+      : 0;
+    return { source: source.map(block => block.html), target: target.map(block => block.html), confidence };
+  });
+
+export const alignBlocks = (sourceHtml: string, targetHtml: string): Alignment => {
+  const sources = toBlocks(sourceHtml);
+  const targets = toBlocks(targetHtml);
+  const sourceTotal = sources.reduce((sum, block) => sum + block.length, 0);
+  const targetTotal = targets.reduce((sum, block) => sum + block.length, 0);
+  // Translations run longer or shorter than their source as a whole; lengths are compared relative to that.
+  const expectedRatio = (targetTotal + 1) / (sourceTotal + 1);
+
+  const n = sources.length;
+  const m = targets.length;
+  if ((n + 1) * (m + 1) > MAX_ALIGNMENT_CELLS) {
+    return summarize(alignByPosition(sources, targets, expectedRatio), sources, targets);
+  }
+
+  // costs[i][j]: cheapest alignment of the first i source and j target blocks; moves[i][j]: the last step taken.
+  const width = m + 1;
+  const costs = new Float64Array((n + 1) * width).fill(Infinity);
+  const moves = new Int8Array((n + 1) * width).fill(-1);
+  costs[0] = 0;
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      const current = costs[i * width + j];
+      if (current === Infinity) continue;
+      MOVES.forEach((move, moveIndex) => {
+        const nextI = i + move.source;
+        const nextJ = j + move.target;
+        if (nextI > n || nextJ > m) return;
+        const cost = current + move.cost + groupCost(sources.slice(i, nextI), targets.slice(j, nextJ), expectedRatio);
+        if (cost < costs[nextI * width + nextJ]) {
+          costs[nextI * width + nextJ] = cost;
+          moves[nextI * width + nextJ] = moveIndex;
+        }
+      });
+    }
+  }
+
+  const pairs: AlignedPair[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const move = MOVES[moves[i * width + j]];
+    const source = sources.slice(i - move.source, i);
+    const target = targets.slice(j - move.target, j);
+    const cost = move.cost + groupCost(source, target, expectedRatio);
+    pairs.push({
+      source: source.map(block => block.html),
+      target: target.map(block => block.html),
+      confidence: source.length && target.length ? Math.round(Math.exp(-cost) * 100) / 100 : 0,
+    });
+    i -= move.source;
+    j -= move.target;
+  }
+  return summarize(pairs.reverse(), sources, targets);
+};
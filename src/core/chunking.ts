@@ -0,0 +1,257 @@
+import { tokenizeHtml, HtmlToken } from './html';
+
+// Elements a document may be split at. Splitting never happens inside one of these.
+export const BLOCK_ELEMENTS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'li', 'blockquote', 'pre', 'table']);
+
+export interface HtmlChunk {
+  index: number;
+  html: string;
+  // Opening tags of containers (e.g. <ul>) that were still open where the chunk starts,
+  // and the matching closing tags, so every chunk is well-formed on its own.
+  openPrefix: string;
+  closeSuffix: string;
+  // Plain-text tail of the preceding chunk, passed to the model for terminology and tone consistency.
+  previousTail: string;
+  // Set when every block of the chunk already has a translation (see ChunkOptions.knownTranslation);
+  // such chunks are not sent to the model.
+  translated?: string;
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  tailChars?: number;
+  // Translation of a block that was translated before, e.g. from the translation memory.
+  // Known blocks are kept out of the chunks that go to the model.
+  knownTranslation?: (blockHtml: string) => string | undefined;
+}
+
+export interface ChunkRunOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  // Called as soon as every chunk up to and including `index` is available, in document order.
+  onChunkReady?: (index: number, translatedHtml: string) => void;
+}
+
+// Raised when one chunk exhausts its attempts; `cause` keeps the last underlying error.
+export class ChunkTranslationError extends Error {
+  constructor(message: string, public readonly chunkIndex: number, public readonly cause: unknown) {
+    super(message);
+    this.name = 'ChunkTranslationError';
+  }
+}
+
+const DEFAULT_MAX_TOKENS = 6000;
+const DEFAULT_TAIL_CHARS = 600;
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Rough token estimate (~4 characters per token) that errs on the side of smaller chunks.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const textOf = (tokens: HtmlToken[]): string =>
+  tokens.filter(t => t.type === 'text').map(t => t.raw).join('').replace(/\s+/g, ' ').trim();
+
+type OpenTag = Extract<HtmlToken, { type: 'open' }>;
+
+interface Segment {
+  tokens: HtmlToken[];
+  // Containers open (outside any block element) at the start and end of the segment.
+  openAtStart: OpenTag[];
+  openAtEnd: OpenTag[];
+}
+
+// True when the tokens hold more than container opening tags and whitespace.
+const hasContent = (tokens: HtmlToken[]): boolean =>
+  tokens.some(t => t.type !== 'open' && !(t.type === 'text' && !t.raw.trim()));
+
+// Cuts the token stream into segments that each start and end outside of any block element.
+// Container tags stay attached to the blocks they wrap: opening tags to the following block,
+// closing tags to the preceding one.
+const segmentAtBlockBoundaries = (tokens: HtmlToken[]): Segment[] => {
+  const segments: Segment[] = [];
+  const stack: OpenTag[] = [];
+  let current: HtmlToken[] = [];
+  let currentOpenAtStart: OpenTag[] = [];
+  let blockDepth = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      segments.push({ tokens: current, openAtStart: currentOpenAtStart, openAtEnd: [...stack] });
+    }
+    current = [];
+    currentOpenAtStart = [...stack];
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'open' && !token.selfClosing) {
+      if (BLOCK_ELEMENTS.has(token.name)) {
+        if (blockDepth === 0 && hasContent(current)) flush();
+        blockDepth++;
+        current.push(token);
+      } else {
+        current.push(token);
+        if (blockDepth === 0) stack.push(token);
+      }
+      continue;
+    }
+
+    if (token.type === 'close') {
+      current.push(token);
+      if (BLOCK_ELEMENTS.has(token.name) && blockDepth > 0) {
+        blockDepth--;
+        if (blockDepth === 0) flush();
+      } else if (blockDepth === 0) {
+        const index = stack.map(t => t.name).lastIndexOf(token.name);
+        if (index !== -1) stack.length = index;
+        const previous = segments[segments.length - 1];
+        if (previous && !hasContent(current.slice(0, -1))) {
+          previous.tokens.push(...current);
+          previous.openAtEnd = [...stack];
+          current = [];
+          currentOpenAtStart = [...stack];
+        }
+      }
+      continue;
+    }
+
+    current.push(token);
+  }
+  flush();
+
+  return segments;
+};
+
+const segmentHtml = (segment: Segment): string => segment.tokens.map(t => t.raw).join('');
+
+// The HTML of each block of a document (with the container tags attached to it), in order; joined they give the document again.
+export const splitBlocks = (html: string): string[] => segmentAtBlockBoundaries(tokenizeHtml(html)).map(segmentHtml);
+
+const closingTagsFor = (open: OpenTag[]): string =>
+  [...open].reverse().map(t => `</${t.name}>`).join('');
+
+/**
+ * Splits sanitized HTML into chunks at block-element boundaries, each within the token budget.
+ * A single block larger than the budget becomes a chunk of its own rather than being cut.
+ */
+export const chunkHtml = (html: string, options: ChunkOptions = {}): HtmlChunk[] => {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const tailChars = options.tailChars ?? DEFAULT_TAIL_CHARS;
+  const segments = segmentAtBlockBoundaries(tokenizeHtml(html));
+
+  const chunks: HtmlChunk[] = [];
+  let group: Segment[] = [];
+  let groupTokens = 0;
+  let previousText = '';
+
+  const emit = () => {
+    if (group.length === 0) return;
+    const tokens = group.flatMap(s => s.tokens);
+    const first = group[0];
+    const last = group[group.length - 1];
+    chunks.push({
+      index: chunks.length,
+      html: tokens.map(t => t.raw).join(''),
+      openPrefix: first.openAtStart.map(t => t.raw).join(''),
+      closeSuffix: closingTagsFor(last.openAtEnd),
+      previousTail: previousText.slice(-tailChars),
+    });
+    previousText = textOf(tokens);
+    group = [];
+    groupTokens = 0;
+  };
+
+  for (const segment of segments) {
+    const html = segmentHtml(segment);
+    const known = options.knownTranslation?.(html);
+    if (known !== undefined) {
+      emit();
+      // Consecutive known blocks form a single chunk.
+      const previous = chunks[chunks.length - 1];
+      if (previous?.translated !== undefined) {
+        previous.html += html;
+        previous.translated += known;
+      } else {
+        chunks.push({ index: chunks.length, html, openPrefix: '', closeSuffix: '', previousTail: '', translated: known });
+      }
+      previousText = textOf(segment.tokens);
+      continue;
+    }
+    const size = estimateTokens(html);
+    if (group.length > 0 && groupTokens + size > maxTokens) emit();
+    group.push(segment);
+    groupTokens += size;
+  }
+  emit();
+
+  return chunks;
+};
+
+// The HTML actually sent for a chunk: its own markup wrapped in the containers it lives in.
+export const chunkSource = (chunk: HtmlChunk): string => chunk.openPrefix + chunk.html + chunk.closeSuffix;
+
+// Removes the container tags added by `chunkSource` from a translated chunk so chunks can be concatenated again.
+export const unwrapChunk = (chunk: HtmlChunk, translatedHtml: string): string => {
+  let html = translatedHtml.trim();
+  for (const name of [...chunk.openPrefix.matchAll(/<([a-zA-Z][\w:-]*)/g)].map(m => m[1])) {
+    html = html.replace(new RegExp(`^\\s*<${name}\\b[^>]*>`, 'i'), '');
+  }
+  for (const name of [...chunk.closeSuffix.matchAll(/<\/([a-zA-Z][\w:-]*)>/g)].map(m => m[1]).reverse()) {
+    html = html.replace(new RegExp(`</${name}>\\s*$`, 'i'), '');
+  }
+  return html;
+};
+
+/**
+ * Translates chunks with bounded concurrency and reassembles the output in document order.
+ * Each chunk is retried on its own; the job only fails when one chunk exhausts its attempts.
+ * `translateChunk` receives a signal that aborts when another chunk has failed, so calls still running can stop.
+ */
+export const translateChunks = async (
+  chunks: HtmlChunk[],
+  translateChunk: (chunk: HtmlChunk, signal: AbortSignal) => Promise<string>,
+  options: ChunkRunOptions = {},
+): Promise<string> => {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const results: (string | undefined)[] = new Array(chunks.length);
+  let nextToStart = 0;
+  let nextToEmit = 0;
+  const controller = new AbortController();
+
+  const translateWithRetry = async (chunk: HtmlChunk): Promise<string> => {
+    if (chunk.translated !== undefined) return chunk.translated;
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return unwrapChunk(chunk, await translateChunk(chunk, controller.signal));
+      } catch (error) {
+        // Another chunk failed and the job is over; its error is the one reported.
+        if (controller.signal.aborted) throw error;
+        lastError = error;
+        console.warn(`Chunk ${chunk.index + 1}/${chunks.length} failed (attempt ${attempt}/${maxAttempts}):`, error);
+      }
+    }
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    throw new ChunkTranslationError(`${chunks.length}개 구간 중 ${chunk.index + 1}번째 구간 번역 실패: ${message}`, chunk.index, lastError);
+  };
+
+  const worker = async () => {
+    while (!controller.signal.aborted && nextToStart < chunks.length) {
+      const chunk = chunks[nextToStart++];
+      try {
+        results[chunk.index] = await translateWithRetry(chunk);
+      } catch (error) {
+        // Stop the other workers from starting new chunks and cancel the ones in flight.
+        controller.abort();
+        throw error;
+      }
+      while (nextToEmit < chunks.length && results[nextToEmit] !== undefined) {
+        options.onChunkReady?.(nextToEmit, results[nextToEmit] as string);
+        nextToEmit++;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  return results.join('');
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { extractMainContent, hasTextContent, textToHtml } from './extract';
+
+const BASE_URL = 'https://example.com/post/1';
+
+const extract = (body: string) => extractMainContent(`<html><body>${body}</body></html>`, BASE_URL);
+
+describe('extractMainContent', () => {
+  it('drops scripts, styles and embedded documents with their content', () => {
+    expect(extract('<p>Hi</p><script>alert(1)</script><style>p { color: red }</style><iframe src="//evil.example"></iframe>'))
+      .toBe('<p>Hi</p>');
+    expect(extract('<p>ok</p><svg><script>alert(1)</script></svg><noscript><img src=x></noscript>')).toBe('<p>ok</p>');
+  });
+
+  it('strips every attribute except a link target', () => {
+    expect(extract('<p onclick="alert(1)" style="color:red" class="lead">Hi <b onmouseover="x()">there</b></p>'))
+      .toBe('<p>Hi <b>there</b></p>');
+  });
+
+  it('unwraps tags outside the allowlist and keeps their text', () => {
+    expect(extract('<p>Hi <span class="x">there</span><img src=x onerror=alert(1)></p>')).toBe('<p>Hi there</p>');
+  });
+
+  it('resolves links against the page URL and opens them in a new tab', () => {
+    expect(extract('<p><a href="/docs?a=1&amp;b=2">docs</a></p>')).toBe(
+      '<p><a href="https://example.com/docs?a=1&amp;b=2" target="_blank" rel="noopener noreferrer">docs</a></p>',
+    );
+  });
+
+  it('removes the target of links that are not http(s)', () => {
+    expect(extract('<p><a href="javascript:alert(1)">x</a> <a href=" JavaScript:alert(1)">y</a> <a href="mailto:a@b.c">z</a></p>'))
+      .toBe('<p><a>x</a> <a>y</a> <a>z</a></p>');
+  });
+
+  it('escapes a stray less-than sign in text', () => {
+    expect(extract('<p>x < y</p>')).toBe('<p>x &lt; y</p>');
+  });
+
+  it('escapes an unfinished tag or comment at the end of the page', () => {
+    expect(extractMainContent('<p>Hello world</p><img src=x onerror=alert(document.cookie)//', BASE_URL))
+      .toBe('<p>Hello world</p><p>&lt;img src=x onerror=alert(document.cookie)//</p>');
+    expect(extractMainContent('<p>x</p><!--<img src=x onerror=alert(1)>', BASE_URL))
+      .toBe('<p>x</p><p>&lt;!--&lt;img src=x onerror=alert(1)&gt;</p>');
+  });
+
+  it('keeps entities and escapes a bare ampersand', () => {
+    expect(extract('<p>a &amp; b&nbsp;&#169;&#xA9; R&D</p>')).toBe('<p>a &amp; b&nbsp;&#169;&#xA9; R&amp;D</p>');
+  });
+
+  it('drops navigation and boilerplate containers', () => {
+    expect(extract('<nav><p>menu</p></nav><div class="ad-banner"><p>Buy</p></div><div id="main-comments">c</div><div role="search">s</div><p>Body</p>'))
+      .toBe('<p>Body</p>');
+  });
+
+  it('prefers an <article> with enough text to the rest of the page', () => {
+    const text = 'Long article text. '.repeat(20).trim();
+    expect(extract(`<header><h1>Site</h1></header><article><h1>Title</h1><p>${text}</p></article><aside>side</aside>`))
+      .toBe(`<h1>Title</h1><p>${text}</p>`);
+  });
+
+  it('wraps loose text in paragraphs and closes implied end tags', () => {
+    expect(extract('Loose text<div>second</div><p>third')).toBe('<p>Loose text</p><p>second</p><p>third</p>');
+    expect(extract('<ul><li>one<li>two</ul><p>a<p>b')).toBe('<ul><li>one</li><li>two</li></ul><p>a</p><p>b</p>');
+  });
+});
+
+describe('textToHtml', () => {
+  it('escapes markup and keeps paragraphs and line breaks', () => {
+    expect(textToHtml('a & <b>\nline\n\npara')).toBe('<p>a &amp; &lt;b&gt;<br>line</p><p>para</p>');
+  });
+});
+
+describe('hasTextContent', () => {
+  it('ignores markup and whitespace', () => {
+    expect(hasTextContent('<p> </p><br>')).toBe(false);
+    expect(hasTextContent('<p>a</p>')).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { tokenizeHtml, HtmlToken } from './html';
+
+// DOM-free main-content extraction for the server-side job pipeline.
+// The browser path uses Readability + DOMPurify; this mirrors its boilerplate rules and tag allowlist.
+
+// Removed together with everything inside them.
+const DROPPED_ELEMENTS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'nav', 'footer', 'aside', 'header', 'form', 'dialog', 'iframe', 'button', 'select',
+]);
+
+// class/id words that mark boilerplate containers (ads, comments, cookie banners, ...).
+const BOILERPLATE_PATTERN = /(?:^|[\s_-])(?:ads?|comments?|cookie|promo|sidebar|social)(?:[\s_-]|$)/i;
+
+export const ALLOWED_TAGS = new Set(['h1', 'h2', 'h3', 'p', 'b', 'i', 'em', 'strong', 'ul', 'ol', 'li', 'a', 'br', 'blockquote', 'pre', 'code']);
+const ALLOWED_BLOCKS = new Set(['h1', 'h2', 'h3', 'p', 'ul', 'ol', 'li', 'blockquote', 'pre']);
+// Dropped tags that still separate paragraphs; other dropped tags (<span>, <u>, ...) are transparent.
+const SEPARATING_ELEMENTS = new Set([
+  'div', 'section', 'article', 'main', 'figure', 'figcaption', 'table', 'tr', 'td', 'th', 'h4', 'h5', 'h6', 'dl', 'dt', 'dd', 'hr', 'details', 'summary', 'address',
+]);
+
+// Candidate content roots, best first. One is used when it holds enough text.
+const CONTENT_ROOTS = ['article', 'main', 'body'];
+const MIN_ROOT_TEXT_CHARS = 200;
+
+type OpenTag = Extract<HtmlToken, { type: 'open' }>;
+
+const attributeOf = (tag: OpenTag, name: string): string | undefined => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag.raw);
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+};
+
+const isBoilerplate = (tag: OpenTag): boolean =>
+  [attributeOf(tag, 'class'), attributeOf(tag, 'id'), attributeOf(tag, 'role')]
+    .some(value => value !== undefined && (BOILERPLATE_PATTERN.test(value) || value === 'navigation' || value === 'search'));
+
+// Index just past the close tag that matches the open tag at `start` (or the end of the input).
+const findMatchingClose = (tokens: HtmlToken[], start: number): number => {
+  const name = (tokens[start] as OpenTag).name;
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'open' && token.name === name && !token.selfClosing) depth++;
+    if (token.type === 'close' && token.name === name && --depth === 0) return i + 1;
+  }
+  return tokens.length;
+};
+
+const textLength = (tokens: HtmlToken[]): number =>
+  tokens.reduce((sum, t) => sum + (t.type === 'text' ? t.raw.trim().length : 0), 0);
+
+const selectContentRoot = (tokens: HtmlToken[]): HtmlToken[] => {
+  for (const name of CONTENT_ROOTS) {
+    const start = tokens.findIndex(t => t.type === 'open' && t.name === name);
+    if (start === -1) continue;
+    const region = tokens.slice(start + 1, findMatchingClose(tokens, start) - 1);
+    if (name === 'body' || textLength(region) >= MIN_ROOT_TEXT_CHARS) return region;
+  }
+  return tokens;
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Text runs may hold markup the tokenizer could not read as a tag (an unfinished tag or comment at the end of the page),
+// so every '<' and '>' is escaped. Entities already in the text are kept.
+const escapeText = (text: string) =>
+  text.replace(/&(?!#\d+;|#x[0-9a-f]+;|[a-z][a-z\d]*;)/gi, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const openTagHtml = (tag: OpenTag, baseUrl: string): string => {
+  if (tag.name !== 'a') return `<${tag.name}>`;
+  const href = attributeOf(tag, 'href');
+  if (!href) return '<a>';
+  try {
+    const url = new URL(href.replace(/&amp;/g, '&'), baseUrl || undefined);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return '<a>';
+    return `<a href="${escapeAttribute(url.href)}" target="_blank" rel="noopener noreferrer">`;
+  } catch {
+    return '<a>';
+  }
+};
+
+/**
+ * Extracts the main content of a page as sanitized HTML limited to `ALLOWED_TAGS`.
+ * Text outside any allowed block is wrapped in <p> so the result chunks and renders like the browser path.
+ */
+export const extractMainContent = (html: string, baseUrl: string): string => {
+  const tokens = selectContentRoot(tokenizeHtml(html));
+  // Emitted open tags; `implicit` marks a <p> added around loose text.
+  const stack: { name: string; implicit: boolean }[] = [];
+  let output = '';
+
+  const closeUntil = (index: number) => {
+    while (stack.length > index) output += `</${stack.pop()!.name}>`;
+  };
+  const closeLooseParagraph = () => {
+    const index = stack.findIndex(entry => entry.implicit);
+    if (index !== -1) closeUntil(index);
+  };
+  // HTML lets <p> and <li> end implicitly; close them the way a browser would.
+  const closeImplied = (name: string) => {
+    const names = stack.map(entry => entry.name);
+    if (name === 'li') {
+      const li = names.lastIndexOf('li');
+      if (li > Math.max(names.lastIndexOf('ul'), names.lastIndexOf('ol'))) closeUntil(li);
+    } else if (names.lastIndexOf('p') !== -1) {
+      closeUntil(names.lastIndexOf('p'));
+    }
+  };
+  const ensureBlock = () => {
+    if (!stack.some(entry => ALLOWED_BLOCKS.has(entry.name))) {
+      output += '<p>';
+      stack.push({ name: 'p', implicit: true });
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'comment') continue;
+
+    if (token.type === 'text') {
+      if (!token.raw.trim()) {
+        if (stack.length > 0) output += token.raw;
+        continue;
+      }
+      ensureBlock();
+      output += escapeText(token.raw);
+      continue;
+    }
+
+    if (token.type === 'open') {
+      if (DROPPED_ELEMENTS.has(token.name) || isBoilerplate(token)) {
+        if (!token.selfClosing) i = findMatchingClose(tokens, i) - 1;
+        continue;
+      }
+      if (!ALLOWED_TAGS.has(token.name)) {
+        if (SEPARATING_ELEMENTS.has(token.name)) closeLooseParagraph();
+        continue;
+      }
+      if (ALLOWED_BLOCKS.has(token.name)) {
+        closeLooseParagraph();
+        closeImplied(token.name);
+      } else {
+        ensureBlock();
+      }
+      output += openTagHtml(token, baseUrl);
+      if (token.name !== 'br') stack.push({ name: token.name, implicit: false });
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(token.name)) {
+      if (SEPARATING_ELEMENTS.has(token.name)) closeLooseParagraph();
+      continue;
+    }
+    const index = stack.map(entry => entry.name).lastIndexOf(token.name);
+    if (index !== -1) closeUntil(index);
+  }
+  closeUntil(0);
+
+  return output.trim();
+};
+
+// Plain text pasted by the user, one <p> per blank-line separated paragraph.
+export const textToHtml = (text: string): string =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'))
+    .map(paragraph => `<p>${paragraph.split('\n').join('<br>')}</p>`)
+    .join('');
+
+export const hasTextContent = (html: string): boolean => textLength(tokenizeHtml(html)) > 0;
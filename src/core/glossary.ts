@@ -0,0 +1,63 @@
+import { GlossaryEntry, GlossaryViolation, TargetLanguage } from '../types';
+
+// Glossary matching, prompt injection and the post-check of translated output.
+// Only the entries whose source term occurs in the text go into a prompt, so a large glossary costs little.
+
+// Entries injected into a single prompt at most; the rest are still checked afterwards.
+const MAX_PROMPT_ENTRIES = 100;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Latin letters and digits next to a Latin term mean it is part of a longer word ("cat" in "category").
+// Scripts written without spaces have no such boundary, so a Korean particle right after a term still matches.
+const WORD_CHAR = /[\p{Script=Latin}\p{N}]/u;
+
+const termPattern = (term: string, caseSensitive: boolean): RegExp => {
+  const before = WORD_CHAR.test(term[0]) ? '(?<![\\p{Script=Latin}\\p{N}])' : '';
+  const after = WORD_CHAR.test(term[term.length - 1]) ? '(?![\\p{Script=Latin}\\p{N}])' : '';
+  return new RegExp(`${before}${escapeRegExp(term)}${after}`, caseSensitive ? 'gu' : 'giu');
+};
+
+export const countTerm = (text: string, term: string, caseSensitive: boolean): number =>
+  term ? text.match(termPattern(term, caseSensitive))?.length ?? 0 : 0;
+
+// The output must contain this rendering of the entry's source term.
+const expectedTerm = (entry: GlossaryEntry) => entry.doNotTranslate ? entry.source : entry.target;
+
+// Entries for this target language whose source term occurs in `text`, most specific (longest) first.
+export const glossaryFor = (glossary: GlossaryEntry[], text: string, targetLanguage: TargetLanguage): GlossaryEntry[] =>
+  glossary
+    .filter(entry => !entry.targetLanguage || entry.targetLanguage === targetLanguage)
+    .filter(entry => expectedTerm(entry) && countTerm(text, entry.source, entry.caseSensitive) > 0)
+    .sort((a, b) => b.source.length - a.source.length);
+
+// Prompt section listing the entries to follow; empty when none apply.
+export const buildGlossaryInstruction = (entries: GlossaryEntry[]): string => {
+  if (entries.length === 0) return '';
+  const lines = entries.slice(0, MAX_PROMPT_ENTRIES).map(entry => entry.doNotTranslate
+    ? `- "${entry.source}" → keep as "${entry.source}" (do not translate)`
+    : `- "${entry.source}" → "${entry.target}"`);
+  return `
+
+GLOSSARY: Render these terms exactly as listed, every time they occur.
+${lines.join('\n')}`;
+};
+
+/**
+ * Compares a translation with its source text and reports the entries whose expected rendering occurs
+ * fewer times in the output than the source term does in the original.
+ */
+export const findGlossaryViolations = (
+  entries: GlossaryEntry[],
+  sourceText: string,
+  outputText: string,
+  stage: GlossaryViolation['stage'],
+): GlossaryViolation[] =>
+  entries.flatMap(entry => {
+    const expected = expectedTerm(entry);
+    const sourceCount = countTerm(sourceText, entry.source, entry.caseSensitive);
+    const outputCount = countTerm(outputText, expected, entry.caseSensitive);
+    return sourceCount > 0 && outputCount < sourceCount
+      ? [{ source: entry.source, expected, stage, sourceCount, outputCount }]
+      : [];
+  });
@@ -0,0 +1,152 @@
+// DOM-free HTML helpers shared by the browser code and the proxy (api/).
+
+export type HtmlToken =
+  | { type: 'text'; raw: string }
+  | { type: 'comment'; raw: string }
+  | { type: 'open'; name: string; raw: string; selfClosing: boolean }
+  | { type: 'close'; name: string; raw: string };
+
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+// Finds the '>' that ends the tag starting at `start`, skipping quoted attribute values.
+const findTagEnd = (html: string, start: number): number => {
+  let quote: string | null = null;
+  for (let i = start + 1; i < html.length; i++) {
+    const ch = html[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Splits an HTML string into tags, comments and text runs.
+ * An unterminated tag at the end of the input is returned as text so callers can decide what to do with it.
+ */
+export const tokenizeHtml = (html: string): HtmlToken[] => {
+  const tokens: HtmlToken[] = [];
+  let pos = 0;
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      tokens.push({ type: 'text', raw: html.slice(pos) });
+      break;
+    }
+    if (lt > pos) {
+      tokens.push({ type: 'text', raw: html.slice(pos, lt) });
+    }
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      if (end === -1) {
+        tokens.push({ type: 'text', raw: html.slice(lt) });
+        break;
+      }
+      tokens.push({ type: 'comment', raw: html.slice(lt, end + 3) });
+      pos = end + 3;
+      continue;
+    }
+
+    const match = /^<(\/?)([a-zA-Z][\w:-]*)/.exec(html.slice(lt, lt + 64));
+    if (!match) {
+      // A stray '<' that does not start a tag is plain text.
+      tokens.push({ type: 'text', raw: '<' });
+      pos = lt + 1;
+      continue;
+    }
+
+    const end = findTagEnd(html, lt);
+    if (end === -1) {
+      tokens.push({ type: 'text', raw: html.slice(lt) });
+      break;
+    }
+
+    const raw = html.slice(lt, end + 1);
+    const name = match[2].toLowerCase();
+    if (match[1]) {
+      tokens.push({ type: 'close', name, raw });
+    } else {
+      tokens.push({ type: 'open', name, raw, selfClosing: /\/\s*>$/.test(raw) || VOID_ELEMENTS.has(name) });
+    }
+    pos = end + 1;
+  }
+
+  return tokens;
+};
+
+/**
+ * Turns a partially received HTML string (e.g. a streamed model response) into a well-formed prefix:
+ * a trailing half-written tag or entity is dropped, a leading markdown fence is removed,
+ * and every element that is still open gets closed.
+ */
+export const toWellFormedPrefix = (partialHtml: string): string => {
+  let html = partialHtml.replace(/^\s*```(?:\w+)?\s*/, '').replace(/\s*`{1,3}\s*$/, '');
+
+  const lastLt = html.lastIndexOf('<');
+  if (lastLt > html.lastIndexOf('>')) {
+    html = html.slice(0, lastLt);
+  }
+  html = html.replace(/&[#\w]*$/, '');
+
+  const stack: string[] = [];
+  let output = '';
+  for (const token of tokenizeHtml(html)) {
+    if (token.type === 'open') {
+      if (!token.selfClosing) stack.push(token.name);
+    } else if (token.type === 'close') {
+      const index = stack.lastIndexOf(token.name);
+      if (index === -1) continue; // Stray closing tag: drop it.
+      stack.length = index;
+    } else if (token.type === 'comment') {
+      continue;
+    }
+    output += token.raw;
+  }
+
+  return output + stack.reverse().map(name => `</${name}>`).join('');
+};
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+
+// Elements whose contents are not user-visible text.
+const NON_TEXT_ELEMENTS = new Set(['script', 'style', 'template']);
+
+// Elements whose boundaries end a line of text when `blockBreaks` is set.
+const LINE_BREAK_ELEMENTS = new Set([
+  'p', 'div', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'tr', 'td', 'th', 'br', 'section', 'article',
+]);
+
+// The user-visible text of an HTML fragment, like `element.textContent` but without a DOM.
+export const htmlToText = (html: string, options: { blockBreaks?: boolean } = {}): string => {
+  let skipping: string | null = null;
+  let text = '';
+  for (const token of tokenizeHtml(html)) {
+    if (skipping) {
+      if (token.type === 'close' && token.name === skipping) skipping = null;
+    } else if (token.type === 'open' && NON_TEXT_ELEMENTS.has(token.name) && !token.selfClosing) {
+      skipping = token.name;
+    } else if (token.type === 'text') {
+      text += decodeEntities(token.raw);
+    } else if (options.blockBreaks && (token.type === 'open' || token.type === 'close') && LINE_BREAK_ELEMENTS.has(token.name)) {
+      text += '\n';
+    }
+  }
+  return text;
+};
@@ -0,0 +1,145 @@
+import { LanguageCandidate, LanguageDetection } from '../types';
+import { htmlToText } from './html';
+
+// Offline language detection: writing systems first, then common-word statistics for Latin-script text.
+// Cheap enough to run on the whole document, so mixed-language documents can be spotted paragraph by paragraph.
+
+// Returned for content without any text, which has nothing to translate.
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Writing systems that identify a language on their own. Han is shared by Chinese and Japanese and is settled by kana.
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/\p{Script=Hangul}/u, 'ko'],
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, 'ja'],
+  [/\p{Script=Han}/u, 'zh'],
+  [/\p{Script=Cyrillic}/u, 'ru'],
+  [/\p{Script=Arabic}/u, 'ar'],
+  [/\p{Script=Hebrew}/u, 'he'],
+  [/\p{Script=Greek}/u, 'el'],
+  [/\p{Script=Thai}/u, 'th'],
+  [/\p{Script=Devanagari}/u, 'hi'],
+];
+
+// The most frequent words of each Latin-script language. Shared words count for every language that has them,
+// so it is the distinctive ones ("the", "los", "les", "und") that decide.
+const COMMON_WORDS: Record<string, Set<string>> = {
+  en: new Set('the of and to in is that for it as was with be by on not he this are or his from at which but have an they you were her she there their one all we can has been if more when will would who so no'.split(' ')),
+  es: new Set('de la que el en y a los se del las un por con no una su para es al lo como más pero sus le ya o este sí porque esta entre cuando muy sin sobre también me hasta hay donde'.split(' ')),
+  fr: new Set('de la le et les des en un du une que est pour qui dans par plus pas au sur ne se ce il sont avec son aux ont mais comme ou elle nous vous leur été cette'.split(' ')),
+  de: new Set('der die und in den von zu das mit sich des auf für ist im dem nicht ein eine als auch es an werden aus er hat dass sie nach wird bei einer um am sind noch wie'.split(' ')),
+  it: new Set('di e il la che in un per è una del non con si le da i dei al alla sono più come ma anche gli della nel ha delle questo lo'.split(' ')),
+  pt: new Set('de a o que e do da em um para é com não uma os no se na por mais as dos como mas ao ele das seu sua ou quando muito nos já também pelo'.split(' ')),
+  nl: new Set('de en van het een in is dat op te zijn met voor niet die aan er om ook als bij maar door dan of wordt nog naar heeft hij worden'.split(' ')),
+};
+
+// How much more likely a common word of one language is under that language than under another.
+const WORD_LIKELIHOOD_RATIO = 10;
+// Common-word hits needed before Latin-script statistics are trusted fully.
+const MIN_WORD_HITS = 10;
+// Latin-script text without a single common word is guessed to be English, with this confidence.
+const UNKNOWN_LATIN_CONFIDENCE = 0.1;
+// Paragraphs shorter than this (in letters) are too short to say anything on their own.
+const MIN_PARAGRAPH_LETTERS = 30;
+// A second language must cover at least this share of the text for the document to count as mixed.
+const MIXED_MIN_SHARE = 0.2;
+const MAX_SAMPLE_CHARS = 50_000;
+
+const scriptLanguageOf = (char: string): string | undefined =>
+  SCRIPT_LANGUAGES.find(([pattern]) => pattern.test(char))?.[1];
+
+// Posterior over the Latin-script languages from their common words, scaled down while there is little evidence.
+const latinCandidates = (text: string): LanguageCandidate[] => {
+  const hits = Object.fromEntries(Object.keys(COMMON_WORDS).map(language => [language, 0]));
+  let totalHits = 0;
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    let isCommon = false;
+    for (const [language, words] of Object.entries(COMMON_WORDS)) {
+      if (words.has(word)) {
+        hits[language]++;
+        isCommon = true;
+      }
+    }
+    if (isCommon) totalHits++;
+  }
+  if (totalHits === 0) return [{ language: 'en', confidence: UNKNOWN_LATIN_CONFIDENCE }];
+
+  const maxHits = Math.max(...Object.values(hits));
+  const weights = Object.entries(hits).map(([language, count]) => [language, WORD_LIKELIHOOD_RATIO ** (count - maxHits)] as const);
+  const sum = weights.reduce((total, [, weight]) => total + weight, 0);
+  const evidence = Math.min(1, totalHits / MIN_WORD_HITS);
+  return weights.map(([language, weight]) => ({ language, confidence: (weight / sum) * evidence }));
+};
+
+const rank = (candidates: LanguageCandidate[]): LanguageCandidate[] =>
+  candidates
+    .filter(candidate => candidate.confidence >= 0.01)
+    .sort((a, b) => b.confidence - a.confidence)
+    .map(candidate => ({ ...candidate, confidence: Math.round(candidate.confidence * 100) / 100 }));
+
+// Ranked candidates for one piece of plain text; each confidence is the share of letters it explains.
+export const scoreLanguages = (text: string): LanguageCandidate[] => {
+  const counts: Record<string, number> = {};
+  let latinLetters = 0;
+  let letters = 0;
+  for (const char of text) {
+    if (!/\p{L}/u.test(char)) continue;
+    letters++;
+    if (/\p{Script=Latin}/u.test(char)) {
+      latinLetters++;
+      continue;
+    }
+    const language = scriptLanguageOf(char);
+    if (language) counts[language] = (counts[language] ?? 0) + 1;
+  }
+  if (letters === 0) return [];
+
+  // Japanese mixes kanji into kana text; Chinese has no kana at all.
+  if (counts.ja && counts.zh) {
+    counts.ja += counts.zh;
+    delete counts.zh;
+  }
+  const candidates = Object.entries(counts).map(([language, count]) => ({ language, confidence: count / letters }));
+  if (latinLetters > 0) {
+    const latinShare = latinLetters / letters;
+    for (const candidate of latinCandidates(text)) {
+      candidates.push({ language: candidate.language, confidence: candidate.confidence * latinShare });
+    }
+  }
+  return rank(candidates);
+};
+
+// Languages covering a sizeable share of the document's paragraphs, when there is more than one.
+const mixedLanguagesOf = (paragraphs: string[]): LanguageDetection['mixed'] => {
+  const letters: Record<string, number> = {};
+  let total = 0;
+  for (const paragraph of paragraphs) {
+    const count = paragraph.match(/\p{L}/gu)?.length ?? 0;
+    if (count < MIN_PARAGRAPH_LETTERS) continue;
+    const [top] = scoreLanguages(paragraph);
+    if (!top || top.confidence < 0.5) continue;
+    letters[top.language] = (letters[top.language] ?? 0) + count;
+    total += count;
+  }
+  const shares = Object.entries(letters)
+    .map(([language, count]) => ({ language, share: Math.round((count / total) * 100) / 100 }))
+    .filter(entry => entry.share >= MIXED_MIN_SHARE)
+    .sort((a, b) => b.share - a.share);
+  return shares.length > 1 ? shares : undefined;
+};
+
+// Detects the predominant language of the content HTML without calling a model.
+export const detectLanguageLocally = (contentHtml: string): LanguageDetection => {
+  const text = htmlToText(contentHtml, { blockBreaks: true }).slice(0, MAX_SAMPLE_CHARS);
+  const candidates = scoreLanguages(text);
+  if (candidates.length === 0) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0, candidates: [], source: 'local' };
+  }
+  const mixed = mixedLanguagesOf(text.split(/\n+/));
+  return {
+    language: candidates[0].language,
+    confidence: candidates[0].confidence,
+    candidates,
+    ...(mixed && { mixed }),
+    source: 'local',
+  };
+};
@@ -0,0 +1,7 @@
+// Strips the markdown code fence models sometimes wrap their answer in (```html, ```json or just ```).
+export const stripMarkdown = (text: string): string => {
+  const textToClean = text.trim();
+  const codeBlockRegex = /^```(?:\w+)?\s*([\s\S]*?)\s*```$/;
+  const match = textToClean.match(codeBlockRegex);
+  return (match && match[1]) ? match[1].trim() : textToClean;
+};
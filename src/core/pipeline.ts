@@ -0,0 +1,520 @@
+import { AiModel, AnalysisOutput, GlossaryEntry, LanguageDetection, ProtectionSettings, TargetLanguage, TranslationStyle } from '../types';
+import { chunkHtml, chunkSource, splitBlocks, translateChunks, HtmlChunk } from './chunking';
+import { buildGlossaryInstruction, glossaryFor } from './glossary';
+import { htmlToText } from './html';
+import { detectLanguageLocally, UNDETERMINED_LANGUAGE } from './languageDetection';
+import { classifyError } from './retry';
+import { stripMarkdown } from './markdown';
+import { createStreamingRestorer, maskProtectedSpans, restoreProtectedSpans, PLACEHOLDER_INSTRUCTION, ProtectionPatternMatcher } from './protection';
+import { blockStructureMatches, compareStructure } from './structure';
+import { buildStyleInstruction, effectiveStyle, styleKey } from './style';
+import { fingerprintOf, TranslationMemory, TranslationUnit } from './translationMemory';
+import { JsonSchema, LlmProvider, ProviderError } from './providers/types';
+
+// Prompts, schemas and result parsing for every pipeline stage.
+// Environment-agnostic: used by the proxy (api/), the job runner and the direct-call service alike.
+
+export const analysisSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: {
+      type: 'string',
+      description: 'A concise and suitable title for the provided text, in the original language of the text.'
+    },
+    oneLineSummary: {
+      type: 'string',
+      description: 'A single, comprehensive sentence summarizing the entire text, in the original language of the text.'
+    },
+    keyPoints: {
+      type: 'array',
+      description: 'A concise array of the 3 to 5 most critical key points from the text. Each point should be a complete but brief sentence. The points should be in the original language of the text.',
+      items: { type: 'string' }
+    },
+    keyPlayers: {
+      type: 'array',
+      description: 'An array of strings listing the key people, organizations, or entities mentioned in the text, in the original language.',
+      items: { type: 'string' }
+    },
+    keywords: {
+      type: 'array',
+      description: 'An array of strings listing the main keywords or topics of the text, in the original language.',
+      items: { type: 'string' }
+    },
+  },
+  required: ['title', 'oneLineSummary', 'keyPoints', 'keyPlayers', 'keywords']
+};
+
+export const translatedAnalysisSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    oneLineSummary: { type: 'string' },
+    keyPoints: { type: 'array', items: { type: 'string' } },
+    keyPlayers: { type: 'array', items: { type: 'string' } },
+    keywords: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['oneLineSummary', 'keyPoints', 'keyPlayers', 'keywords']
+};
+
+// How each target language is named in the prompts.
+const PROMPT_LANGUAGE_NAMES: Record<TargetLanguage, string> = {
+  ko: 'Korean',
+  en: 'English',
+  ja: 'Japanese',
+  zh: 'Simplified Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+};
+
+export interface SystemInstructionOptions {
+  // The entries that apply to the text being translated (see glossaryFor in ./glossary)
+  glossary?: GlossaryEntry[];
+  style?: TranslationStyle;
+  // Set when protected content was replaced by placeholders (see ./protection)
+  withPlaceholders?: boolean;
+  // The reader's own request, e.g. "more literal" (see retranslateBlock)
+  instruction?: string;
+}
+
+export const buildTranslationSystemInstruction = (
+  targetLanguage: TargetLanguage,
+  { glossary = [], style = {}, withPlaceholders = false, instruction }: SystemInstructionOptions = {},
+): string =>
+  `You are an expert translator. Your task is to translate the user-provided HTML content into ${PROMPT_LANGUAGE_NAMES[targetLanguage]}.
+
+Follow these rules strictly:
+1.  Translate ONLY the user-visible text content within the HTML tags.
+2.  You MUST preserve the entire HTML structure, including all tags (e.g., <h1>, <p>, <a>) and their attributes (e.g., href, class), exactly as they are. Do not add, remove, or alter any part of the HTML structure.
+3.  Your response MUST BE ONLY the raw, translated HTML string. Do not include any extra text, explanations, or markdown code fences like \`\`\`html.${withPlaceholders ? `\n4.  ${PLACEHOLDER_INSTRUCTION}` : ''}
+
+Example (into Korean):
+- User Input: "<h1>Hello</h1><p>Read more <a href='/about'>here</a>.</p>"
+- Your Output: "<h1>안녕하세요</h1><p><a href='/about'>여기</a>에서 더 읽어보세요.</p>"${buildStyleInstruction(style, targetLanguage)}${buildGlossaryInstruction(glossary)}${instruction ? `
+
+READER'S REQUEST: ${instruction}
+Follow this request wherever it does not conflict with the rules above.` : ''}`;
+
+// --- Language detection ---
+
+const LANGUAGE_SAMPLE_CHARS = 1000;
+
+// Below this confidence the offline detector's answer is checked with the model.
+export const LOW_LANGUAGE_CONFIDENCE = 0.6;
+
+// Content already in the target language is shown as-is instead of being translated.
+export const needsTranslation = (language: string, targetLanguage: TargetLanguage): boolean =>
+  language !== targetLanguage && language !== UNDETERMINED_LANGUAGE;
+
+export const languageSampleOf = (contentHtml: string): string =>
+  htmlToText(contentHtml).trim().substring(0, LANGUAGE_SAMPLE_CHARS);
+
+export const languageSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    language: { type: 'string', description: "Two-letter ISO 639-1 code of the predominant language, e.g. 'en' for English, 'ko' for Korean." },
+    confidence: { type: 'number', description: 'How certain the answer is, from 0 to 1.' },
+  },
+  required: ['language', 'confidence'],
+};
+
+export const buildLanguageDetectionPrompt = (textSample: string): string =>
+  `Detect the predominant language of the following text. Return a JSON object with its two-letter ISO 639-1 code and your confidence.
+
+Text:
+---
+${textSample}
+---
+`;
+
+/**
+ * Detects the content's language offline and asks the model only when the offline detector is unsure.
+ * If the model fails or answers with something that is not a language code, the offline guess is kept.
+ */
+export const detectLanguage = async (llm: LlmProvider, contentHtml: string): Promise<LanguageDetection> => {
+  const local = detectLanguageLocally(contentHtml);
+  const textSample = languageSampleOf(contentHtml);
+  if (!textSample || local.confidence >= LOW_LANGUAGE_CONFIDENCE) return local;
+
+  let answer: { language?: unknown; confidence?: unknown };
+  try {
+    // The lite tier disables thinking for a faster response on this simple classification.
+    answer = await llm.generateJson(
+      { model: 'gemini-2.5-flash-lite', prompt: buildLanguageDetectionPrompt(textSample) },
+      languageSchema,
+    );
+  } catch (error) {
+    if (classifyError(error) === 'CANCELLED') throw error;
+    console.warn('Language detection by the model failed; keeping the offline guess.', error);
+    return local;
+  }
+  const language = typeof answer.language === 'string' ? answer.language.trim().toLowerCase() : '';
+  if (!/^[a-z]{2}$/.test(language)) {
+    console.warn(`Language detection returned a non-standard code: '${String(answer.language)}'. Keeping the offline guess.`);
+    return local;
+  }
+  const confidence = typeof answer.confidence === 'number' ? Math.min(1, Math.max(0, answer.confidence)) : local.confidence;
+  return {
+    ...local,
+    language,
+    confidence,
+    candidates: [{ language, confidence }, ...local.candidates.filter(candidate => candidate.language !== language)],
+    source: 'llm',
+  };
+};
+
+// --- Analysis ---
+
+export const buildAnalysisPrompt = (contentHtml: string): string =>
+  `Analyze the following HTML content from a web page. Your analysis should be based on the text within the HTML.
+
+Provide the following, all in the original language of the text:
+1. A concise "title".
+2. A single sentence "oneLineSummary".
+3. A list of the 3 to 5 most important "keyPoints". Each point should be a concise sentence.
+4. A list of "keyPlayers" (key people, organizations, or entities).
+5. A list of "keywords".
+
+Return a single, valid JSON object that matches the provided schema.
+
+HTML CONTENT TO ANALYZE:
+---
+${contentHtml}
+---
+`;
+
+export const performAnalysis = async (llm: LlmProvider, contentHtml: string, model: AiModel): Promise<AnalysisOutput> => {
+  const analysis = await llm.generateJson<AnalysisOutput>({ model, prompt: buildAnalysisPrompt(contentHtml) }, analysisSchema);
+  if (!analysis.title || !analysis.oneLineSummary || !analysis.keyPoints || !analysis.keyPlayers || !analysis.keywords) {
+    throw new ProviderError('AI analysis response is missing required fields.', llm.name, undefined, 'MALFORMED_OUTPUT');
+  }
+  return analysis;
+};
+
+// The analysis fields that get translated, as one text; what glossary terms are matched and checked against.
+export const analysisTextOf = (analysis: Omit<AnalysisOutput, 'title'>): string =>
+  [analysis.oneLineSummary, ...analysis.keyPoints, ...analysis.keyPlayers, ...analysis.keywords].join('\n');
+
+export const buildAnalysisTranslationPrompt = (
+  analysis: AnalysisOutput,
+  targetLanguage: TargetLanguage,
+  glossary: GlossaryEntry[] = [],
+  style: TranslationStyle = {},
+): string => {
+  const contentToTranslate = {
+    oneLineSummary: analysis.oneLineSummary,
+    keyPoints: analysis.keyPoints,
+    keyPlayers: analysis.keyPlayers,
+    keywords: analysis.keywords,
+  };
+  const glossaryInstruction = buildGlossaryInstruction(glossaryFor(glossary, analysisTextOf(analysis), targetLanguage));
+  return `Translate the values in the following JSON object into ${PROMPT_LANGUAGE_NAMES[targetLanguage]}.
+Maintain the exact same JSON structure and keys. Only translate the string values.${buildStyleInstruction(style, targetLanguage)}${glossaryInstruction}
+
+JSON TO TRANSLATE:
+---
+${JSON.stringify(contentToTranslate, null, 2)}
+---
+`;
+};
+
+export const translateAnalysis = async (
+  llm: LlmProvider,
+  analysis: AnalysisOutput,
+  model: AiModel,
+  targetLanguage: TargetLanguage,
+  glossary: GlossaryEntry[] = [],
+  style: TranslationStyle = {},
+): Promise<AnalysisOutput> => {
+  const translatedContent = await llm.generateJson<Omit<AnalysisOutput, 'title'>>(
+    { model, prompt: buildAnalysisTranslationPrompt(analysis, targetLanguage, glossary, style) },
+    translatedAnalysisSchema,
+  );
+  return { ...analysis, ...translatedContent };
+};
+
+// --- Full translation ---
+
+export interface TranslationOptions {
+  // Token budget per chunk and how many chunks are translated at once (see ./chunking).
+  maxTokens?: number;
+  concurrency?: number;
+  // Terminology to follow; each chunk's prompt lists only the entries occurring in that chunk.
+  glossary?: GlossaryEntry[];
+  // Blocks found here are not translated again, similar ones go to the model as references,
+  // and the blocks the model translated are added to it.
+  memory?: TranslationMemory;
+  // Source language recorded with the blocks added to the memory.
+  sourceLanguage?: string;
+  // When more than this share of the blocks came out with a different structure (see ./structure),
+  // those blocks are translated once more. Unset: never.
+  structureRepairThreshold?: number;
+  // Content replaced by placeholders for the model call and put back afterwards. Unset: nothing is protected.
+  protection?: ProtectionSettings;
+  // Runs the user's protection patterns; unset, they run directly in this process (see ./protection).
+  patternMatcher?: ProtectionPatternMatcher;
+  // Applied to every chunk; translations in the memory are only reused for the same style.
+  style?: TranslationStyle;
+  // Added to the system instruction of every chunk.
+  instruction?: string;
+}
+
+// The memory's key for the style of these options, for the fields that apply to the target language.
+const memoryStyleOf = (targetLanguage: TargetLanguage, options: TranslationOptions): string =>
+  styleKey(effectiveStyle(options.style ?? {}, targetLanguage));
+
+// The memory's context of a block: the glossary entries that apply to it and the protection settings.
+// A remembered translation is not reused once an entry for one of its terms changed.
+const memoryContextOf = (block: string, targetLanguage: TargetLanguage, options: TranslationOptions): string => {
+  const glossary = glossaryFor(options.glossary ?? [], htmlToText(block), targetLanguage)
+    .map(entry => [entry.source, entry.target, entry.caseSensitive, entry.doNotTranslate])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+  const { protection } = options;
+  if (glossary.length === 0 && !protection) return '';
+  return fingerprintOf({
+    glossary,
+    protection: protection && { categories: [...protection.categories].sort(), patterns: [...protection.patterns].sort() },
+  });
+};
+
+// Earlier translations of similar blocks, offered to the model at most this many per chunk.
+const MAX_REFERENCES_PER_CHUNK = 5;
+
+const buildReferenceSection = (references: TranslationUnit[]): string =>
+  `The following are earlier translations of passages similar to this section. Keep their wording where the text is the same and translate only what differs. Do NOT include them in your response.
+${references.map(unit => `SOURCE: ${unit.source}\nTRANSLATION: ${unit.target}`).join('\n\n')}`;
+
+// The tail of the previous chunk goes along as context so terminology and tone stay consistent across chunks.
+export const buildChunkPrompt = (chunk: HtmlChunk, references: TranslationUnit[] = []): string => {
+  const sections: string[] = [];
+  if (chunk.previousTail) {
+    sections.push(`The text below precedes this section and is given for context only. Do NOT translate it or include it in your response.
+CONTEXT: --- ${chunk.previousTail} ---`);
+  }
+  if (references.length > 0) sections.push(buildReferenceSection(references));
+  if (sections.length === 0) return chunkSource(chunk);
+  return `${sections.join('\n\n')}
+
+HTML TO TRANSLATE:
+${chunkSource(chunk)}`;
+};
+
+const referencesFor = (chunk: HtmlChunk, targetLanguage: TargetLanguage, options: TranslationOptions): TranslationUnit[] => {
+  if (!options.memory) return [];
+  const style = memoryStyleOf(targetLanguage, options);
+  const references = new Map<string, TranslationUnit>();
+  for (const block of splitBlocks(chunk.html)) {
+    const context = memoryContextOf(block, targetLanguage, options);
+    for (const match of options.memory.findSimilar(block, targetLanguage, style, context)) references.set(match.unit.source, match.unit);
+  }
+  return [...references.values()].slice(0, MAX_REFERENCES_PER_CHUNK);
+};
+
+/**
+ * Adds the blocks of a translated chunk to the memory. The source and the translation are split the same way;
+ * when the model merged or split blocks they no longer pair up, and nothing is added.
+ * Blocks whose tags, links or code were not kept are left out too, so they are not reused as they are.
+ */
+const rememberChunk = (chunkHtml: string, translatedHtml: string, model: AiModel, targetLanguage: TargetLanguage, options: TranslationOptions) => {
+  if (!options.memory) return;
+  const sources = splitBlocks(chunkHtml);
+  const targets = splitBlocks(translatedHtml);
+  if (sources.length !== targets.length) return;
+  const style = memoryStyleOf(targetLanguage, options);
+  const sourceLanguage = options.sourceLanguage ?? UNDETERMINED_LANGUAGE;
+  options.memory.add(sources.flatMap((source, index) => {
+    if (!htmlToText(source).trim() || !blockStructureMatches(source, targets[index])) return [];
+    const context = memoryContextOf(source, targetLanguage, options);
+    return [{ source, target: targets[index], targetLanguage, sourceLanguage, model, ...(style && { style }), ...(context && { context }) }];
+  }));
+};
+
+const chunkForTranslation = (contentHtml: string, targetLanguage: TargetLanguage, options: TranslationOptions): HtmlChunk[] => {
+  const { maxTokens, memory } = options;
+  const style = memoryStyleOf(targetLanguage, options);
+  return chunkHtml(contentHtml, {
+    maxTokens,
+    knownTranslation: memory && (block => memory.lookup(block, targetLanguage, style, memoryContextOf(block, targetLanguage, options))),
+  });
+};
+
+/**
+ * Translates one chunk with its protected content masked. When a placeholder does not come back,
+ * the chunk is translated again unmasked rather than losing that content.
+ */
+const translateChunk = async (
+  llm: LlmProvider,
+  chunk: HtmlChunk,
+  model: AiModel,
+  targetLanguage: TargetLanguage,
+  options: TranslationOptions,
+  signal?: AbortSignal,
+): Promise<string> => {
+  const chunkGlossary = glossaryFor(options.glossary ?? [], htmlToText(chunkSource(chunk)), targetLanguage);
+  const references = referencesFor(chunk, targetLanguage, options);
+  const translate = async (source: HtmlChunk, withPlaceholders: boolean) => stripMarkdown(await llm.generate({
+    model,
+    prompt: buildChunkPrompt(source, references),
+    systemInstruction: buildTranslationSystemInstruction(targetLanguage, {
+      glossary: chunkGlossary,
+      style: options.style,
+      withPlaceholders,
+      instruction: options.instruction,
+    }),
+    signal,
+  }));
+
+  const masked = options.protection && maskProtectedSpans(chunk.html, options.protection, options.patternMatcher);
+  if (!masked || masked.spans.length === 0) return translate(chunk, false);
+  const restored = restoreProtectedSpans(await translate({ ...chunk, html: masked.html }, true), masked.spans);
+  if (restored.missing.length === 0) return restored.html;
+  console.warn(`Chunk ${chunk.index + 1}: ${restored.missing.length} of ${masked.spans.length} placeholders were lost; translating it unmasked.`);
+  return translate(chunk, false);
+};
+
+const translateAllChunks = (
+  llm: LlmProvider,
+  chunks: HtmlChunk[],
+  model: AiModel,
+  targetLanguage: TargetLanguage,
+  options: TranslationOptions,
+  onChunkReady?: (index: number, translatedHtml: string) => void,
+): Promise<string> =>
+  // Retries belong in the provider (see ./retry), so chunks are not retried again here.
+  translateChunks(chunks, (chunk, signal) => translateChunk(llm, chunk, model, targetLanguage, options, signal), {
+    concurrency: options.concurrency,
+    maxAttempts: 1,
+    onChunkReady: (index, translatedHtml) => {
+      if (chunks[index].translated === undefined) rememberChunk(chunks[index].html, translatedHtml, model, targetLanguage, options);
+      onChunkReady?.(index, translatedHtml);
+    },
+  });
+
+/**
+ * Translates once more the blocks whose structure the model did not keep, when they exceed options.structureRepairThreshold.
+ * Intact blocks are reused as they are. The repaired translation is kept only if it has fewer differences than the first one.
+ */
+const repairStructure = async (
+  llm: LlmProvider,
+  contentHtml: string,
+  translatedHtml: string,
+  model: AiModel,
+  targetLanguage: TargetLanguage,
+  options: TranslationOptions,
+): Promise<string> => {
+  if (options.structureRepairThreshold === undefined) return translatedHtml;
+  const comparison = compareStructure(contentHtml, translatedHtml);
+  if (comparison.ratio <= options.structureRepairThreshold) return translatedHtml;
+  // Whitespace between blocks has nothing to translate.
+  const chunks = chunkHtml(contentHtml, {
+    maxTokens: options.maxTokens,
+    knownTranslation: block => (block.trim() ? comparison.intact.get(block) : block),
+  });
+  const repaired = await translateAllChunks(llm, chunks, model, targetLanguage, options);
+  return compareStructure(contentHtml, repaired).issues.length < comparison.issues.length ? repaired : translatedHtml;
+};
+
+// Splits the document at block boundaries, translates the chunks in parallel and joins them in order.
+export const performTranslation = async (
+  llm: LlmProvider,
+  contentHtml: string,
+  model: AiModel,
+  targetLanguage: TargetLanguage,
+  options: TranslationOptions = {},
+): Promise<string> => {
+  const translated = await translateAllChunks(llm, chunkForTranslation(contentHtml, targetLanguage, options), model, targetLanguage, options);
+  return repairStructure(llm, contentHtml, translated, model, targetLanguage, options);
+};
+
+/**
+ * Translates the document, handing each piece to `onText` as soon as it is available; concatenated they form the translation.
+ * Multi-chunk documents report whole chunks in document order, a single chunk is streamed straight from the model.
+ * Blocks repaired afterwards (see repairStructure) are not reported, so the returned translation may differ from the pieces.
+ */
+export const translateIncrementally = async (
+  llm: LlmProvider,
+  contentHtml: string,
+  model: AiModel,
+  targetLanguage: TargetLanguage,
+  onText: (text: string) => void,
+  options: TranslationOptions = {},
+): Promise<string> => {
+  const chunks = chunkForTranslation(contentHtml, targetLanguage, options);
+  if (chunks.length !== 1 || chunks[0].translated !== undefined) {
+    const translated = await translateAllChunks(llm, chunks, model, targetLanguage, options, (_index, translatedHtml) => onText(translatedHtml));
+    return repairStructure(llm, contentHtml, translated, model, targetLanguage, options);
+  }
+  let translated = '';
+  const masked = options.protection ? maskProtectedSpans(contentHtml, options.protection, options.patternMatcher) : { html: contentHtml, spans: [] };
+  const restorer = createStreamingRestorer(masked.spans);
+  const references = referencesFor(chunks[0], targetLanguage, options);
+  const prompt = references.length > 0 ? buildChunkPrompt({ ...chunks[0], html: masked.html }, references) : masked.html;
+  const glossary = glossaryFor(options.glossary ?? [], htmlToText(contentHtml), targetLanguage);
+  const systemInstruction = buildTranslationSystemInstruction(targetLanguage, {
+    glossary,
+    style: options.style,
+    withPlaceholders: masked.spans.length > 0,
+    instruction: options.instruction,
+  });
+  for await (const text of llm.stream({ model, prompt, systemInstruction })) {
+    translated += text;
+    const restoredText = restorer.push(text);
+    if (restoredText) onText(restoredText);
+  }
+  const rest = restorer.flush();
+  if (rest) onText(rest);
+  const restored = restoreProtectedSpans(stripMarkdown(translated), masked.spans);
+  let result = restored.html;
+  if (restored.missing.length > 0) {
+    console.warn(`${restored.missing.length} of ${masked.spans.length} placeholders were lost; translating again unmasked.`);
+    result = await translateChunk(llm, chunks[0], model, targetLanguage, { ...options, protection: undefined });
+  }
+  rememberChunk(contentHtml, result, model, targetLanguage, options);
+  return repairStructure(llm, contentHtml, result, model, targetLanguage, options);
+};
+
+// --- Block retranslation ---
+
+/**
+ * Translates a single block again, e.g. with the other model or an instruction, for the reader to compare with the one they have.
+ * The translation memory is left out: its translation of the block is the one being replaced, and the reader
+ * has not accepted the new one yet.
+ */
+export const retranslateBlock = (
+  llm: LlmProvider,
+  blockHtml: string,
+  model: AiModel,
+  targetLanguage: TargetLanguage,
+  options: TranslationOptions = {},
+): Promise<string> =>
+  translateAllChunks(llm, chunkHtml(blockHtml, { maxTokens: options.maxTokens }), model, targetLanguage, { ...options, memory: undefined });
+
+// --- Readability ---
+
+export const buildReadabilityPrompt = (contentHtml: string, language: TargetLanguage): string =>
+  `You are an expert editor specializing in improving the readability of web content.
+Your task is to take the following ${PROMPT_LANGUAGE_NAMES[language]} HTML content and reformat it for a better reading experience.
+Do not change the core meaning, information, or language (it should remain ${PROMPT_LANGUAGE_NAMES[language]}).
+Your response must be a single block of valid HTML content, without any surrounding text or code blocks like \`\`\`html.
+
+Apply the following improvements:
+1.  **Structure:** If appropriate, introduce \`<h2>\` or \`<h3>\` headings to create a clear hierarchy for different sections.
+2.  **Paragraphs:** Break down very long, dense paragraphs into shorter, more focused ones.
+3.  **Lists:** Identify sentences that contain lists of items and convert them into bulleted lists (\`<ul><li>...</li></ul>\`).
+4.  **Emphasis:** Use \`<strong>\` tags to highlight the most critical phrases, keywords, or conclusions. Use \`<em>\` for subtle emphasis where needed.
+5.  **Clarity:** Simplify overly complex sentences to make them easier to understand, but without losing important nuance.
+
+HTML CONTENT TO ENHANCE:
+---
+${contentHtml}
+---
+`;
+
+export const enhanceReadability = async (llm: LlmProvider, contentHtml: string, language: TargetLanguage): Promise<string> => {
+  const response = await llm.generate({ model: 'gemini-2.5-flash', prompt: buildReadabilityPrompt(contentHtml, language) });
+  const enhancedHtml = stripMarkdown(response);
+  if (!enhancedHtml || !enhancedHtml.startsWith('<')) {
+    console.error('AI did not return valid HTML for readability enhancement:', enhancedHtml);
+    throw new ProviderError('AI did not return a valid HTML response.', llm.name, undefined, 'MALFORMED_OUTPUT');
+  }
+  return enhancedHtml;
+};
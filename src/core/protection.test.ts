@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ProtectionSettings } from '../types';
+import { DEFAULT_PROTECTION, createStreamingRestorer, maskProtectedSpans, restoreProtectedSpans } from './protection';
+
+const roundTrip = (html: string, settings: ProtectionSettings) => {
+  const masked = maskProtectedSpans(html, settings);
+  return { masked, restored: restoreProtectedSpans(masked.html, masked.spans) };
+};
+
+describe('maskProtectedSpans', () => {
+  it('replaces code, URLs, e-mail addresses and numbers with units by placeholders', () => {
+    const masked = maskProtectedSpans(
+      '<p>Run <code>npm i</code> at https://example.com/x, mail me@example.com, costs $5 and 10 MB.</p><pre><code>const a = 1;</code></pre>',
+      DEFAULT_PROTECTION,
+    );
+    expect(masked.html).toBe('<p>Run <code>⟦0⟧</code> at ⟦1⟧, mail ⟦2⟧, costs ⟦3⟧ and ⟦4⟧.</p><pre>⟦5⟧</pre>');
+    expect(masked.spans).toEqual(['npm i', 'https://example.com/x', 'me@example.com', '$5', '10 MB', '<code>const a = 1;</code>']);
+  });
+
+  it('masks only the enabled categories', () => {
+    const masked = maskProtectedSpans('<p><code>x</code> https://example.com 5 kg</p>', { categories: ['urls'], patterns: [] });
+    expect(masked.html).toBe('<p><code>x</code> ⟦0⟧ 5 kg</p>');
+  });
+
+  it('masks what the user patterns match', () => {
+    const masked = maskProtectedSpans('<p>Ticket ABC-123 and ABC-9</p>', { categories: [], patterns: ['ABC-\\d+'] });
+    expect(masked).toEqual({ html: '<p>Ticket ⟦0⟧ and ⟦1⟧</p>', spans: ['ABC-123', 'ABC-9'] });
+  });
+
+  it('leaves tags and attributes alone', () => {
+    const masked = maskProtectedSpans('<p><a href="https://example.com/a">https://example.com/b</a></p>', DEFAULT_PROTECTION);
+    expect(masked.html).toBe('<p><a href="https://example.com/a">⟦0⟧</a></p>');
+  });
+});
+
+describe('mask and restore', () => {
+  it.each([
+    ['mixed content', '<p>Run <code>npm i</code> at https://example.com/x, costs $5 and 10 MB.</p><pre><code>const a = 1 &lt; 2;</code></pre>'],
+    ['nested code blocks', '<pre><code><pre>inner</pre></code></pre><p>after 3 ms</p>'],
+    ['an element left open', '<p>text <code>never closed'],
+    ['nothing to protect', '<p>Plain text only.</p>'],
+  ])('gives back the original HTML for %s', (_, html) => {
+    const { restored } = roundTrip(html, DEFAULT_PROTECTION);
+    expect(restored).toEqual({ html, missing: [] });
+  });
+
+  it('restores placeholders the model moved or padded with spaces', () => {
+    const { masked } = roundTrip('<p>Ticket ABC-123 and ABC-9</p>', { categories: [], patterns: ['ABC-\\d+'] });
+    expect(restoreProtectedSpans('<p>티켓 ⟦ 1 ⟧, ⟦0⟧</p>', masked.spans)).toEqual({ html: '<p>티켓 ABC-9, ABC-123</p>', missing: [] });
+  });
+
+  it('reports the placeholders the translation lost', () => {
+    expect(restoreProtectedSpans('<p>only ⟦0⟧ and ⟦7⟧</p>', ['a', 'b'])).toEqual({ html: '<p>only a and ⟦7⟧</p>', missing: [1] });
+  });
+
+  it('restores a placeholder split between streamed pieces', () => {
+    const restorer = createStreamingRestorer(['ABC-123', 'ABC-9']);
+    const pieces = ['<p>A ⟦', '1⟧ b ⟦0', '⟧</p>'].map(piece => restorer.push(piece));
+    expect([...pieces, restorer.flush()]).toEqual(['<p>A ', 'ABC-9 b ', 'ABC-123</p>', '']);
+  });
+});
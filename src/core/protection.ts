@@ -0,0 +1,180 @@
+import { PROTECTED_CATEGORIES, ProtectedCategory, ProtectionSettings } from '../types';
+import { tokenizeHtml } from './html';
+
+// Content the model must not change (code, URLs, e-mail addresses, numbers with units and whatever the user's own
+// patterns match) is swapped for numbered placeholders before a chunk is translated, and swapped back in afterwards.
+// Element tags stay in place, so only the contents of <pre> and <code> become placeholders.
+
+export const DEFAULT_PROTECTION: ProtectionSettings = { categories: [...PROTECTED_CATEGORIES], patterns: [] };
+
+export interface MaskedHtml {
+  html: string;
+  // The protected content, in placeholder order
+  spans: string[];
+}
+
+export interface RestoredHtml {
+  html: string;
+  // Placeholders the translation lost
+  missing: number[];
+}
+
+const placeholder = (index: number) => `⟦${index}⟧`;
+
+// Models sometimes pad the number with spaces.
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+
+// Units that follow a number; single letters only count when no other letter follows ("5 s", not "5 seconds").
+const NUMBER_WITH_UNIT = /(?:[$€£¥₩]\s?\d+(?:[.,]\d+)*|(?<![\p{L}\d.,])\d+(?:[.,]\d+)*\s?(?:%|°[CF]|[kKMGT]i?B|[kMG]?Hz|km\/h|mph|kWh|mAh|[kMG]?W|[mk]?V|[kcmμ]?m|[mk]?g|lbs?|oz|ft|ms|min|px|rem|em|pt|dpi|fps|rpm|s|h)(?![\p{L}\d]))/gu;
+
+const TEXT_PATTERNS: Partial<Record<ProtectedCategory, RegExp>> = {
+  urls: /\b(?:https?:\/\/|www\.)[^\s<>"']*[^\s<>"'.,;:!?)\]]/gi,
+  emails: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  numbers: NUMBER_WITH_UNIT,
+};
+
+// The system prompt rule that goes with masked content.
+export const PLACEHOLDER_INSTRUCTION = `Placeholders such as ⟦0⟧ stand for content that must not be translated. Copy every placeholder into your translation exactly once and unchanged, where that content belongs in the sentence.`;
+
+// Throws a SyntaxError for a pattern that is not a valid regular expression.
+export const compileProtectionPattern = (pattern: string): RegExp => new RegExp(pattern, 'g');
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the matches of the user's patterns in each of a list of text runs.
+ * User patterns can backtrack catastrophically, so the server runs them in a sandbox with a time limit
+ * (see api/_lib/patternSandbox.ts); matchPatternsDirectly is for patterns that are known to be safe.
+ */
+export type ProtectionPatternMatcher = (texts: string[]) => TextRange[][];
+
+const rangesOf = (text: string, patterns: RegExp[]): TextRange[] =>
+  patterns.flatMap(pattern => [...text.matchAll(pattern)].map(match => ({ start: match.index, end: match.index + match[0].length })));
+
+export const matchPatternsDirectly = (patterns: string[]): ProtectionPatternMatcher => {
+  const compiled = patterns.map(compileProtectionPattern);
+  return texts => texts.map(text => rangesOf(text, compiled));
+};
+
+// Replaces ranges of a text run, earliest first and, of ranges starting at the same place, the longest.
+const maskText = (text: string, ranges: TextRange[], protect: (content: string) => string): string => {
+  const sorted = ranges.filter(range => range.end > range.start).sort((a, b) => a.start - b.start || b.end - a.end);
+  let masked = '';
+  let pos = 0;
+  for (const range of sorted) {
+    if (range.start < pos) continue;
+    masked += text.slice(pos, range.start) + protect(text.slice(range.start, range.end));
+    pos = range.end;
+  }
+  return masked + text.slice(pos);
+};
+
+// Output of the first pass of maskProtectedSpans: markup as it is, the content of a protected element, or a text run to search.
+type Piece = string | { code: string } | { text: string };
+
+export const maskProtectedSpans = (
+  html: string,
+  settings: ProtectionSettings,
+  matchUserPatterns: ProtectionPatternMatcher = matchPatternsDirectly(settings.patterns),
+): MaskedHtml => {
+  const categories = new Set(settings.categories);
+  const builtInPatterns = settings.categories.flatMap(category => TEXT_PATTERNS[category] ?? []);
+  const searchText = builtInPatterns.length > 0 || settings.patterns.length > 0;
+
+  const pieces: Piece[] = [];
+  // The <pre> or <code> element whose content is being collected, how deeply it is nested in itself, and the content so far.
+  let element: string | null = null;
+  let depth = 0;
+  let content = '';
+  // Depth of <pre> elements left unprotected; <code> inside them is part of a code block, not inline code.
+  let openPres = 0;
+
+  for (const token of tokenizeHtml(html)) {
+    if (element) {
+      if (token.type === 'open' && token.name === element && !token.selfClosing) depth++;
+      if (token.type === 'close' && token.name === element && --depth === 0) {
+        if (content) pieces.push({ code: content });
+        pieces.push(token.raw);
+        element = null;
+        content = '';
+      } else {
+        content += token.raw;
+      }
+      continue;
+    }
+    if (token.type === 'open' && !token.selfClosing) {
+      const isProtected = token.name === 'pre'
+        ? categories.has('codeBlocks')
+        : token.name === 'code' && (openPres > 0 ? categories.has('codeBlocks') : categories.has('inlineCode'));
+      if (isProtected) {
+        element = token.name;
+        depth = 1;
+      } else if (token.name === 'pre') {
+        openPres++;
+      }
+    } else if (token.type === 'close' && token.name === 'pre' && openPres > 0) {
+      openPres--;
+    } else if (token.type === 'text' && searchText) {
+      pieces.push({ text: token.raw });
+      continue;
+    }
+    pieces.push(token.raw);
+  }
+  // An element still open at the end keeps its content as it is.
+  pieces.push(content);
+
+  // The user's patterns run once over all text runs, so the sandbox is entered once per call.
+  const texts = pieces.flatMap(piece => (typeof piece === 'object' && 'text' in piece ? [piece.text] : []));
+  const userRanges = settings.patterns.length > 0 ? matchUserPatterns(texts) : [];
+
+  const spans: string[] = [];
+  const protect = (protectedContent: string) => {
+    spans.push(protectedContent);
+    return placeholder(spans.length - 1);
+  };
+  let textIndex = 0;
+  const output = pieces.map(piece => {
+    if (typeof piece === 'string') return piece;
+    if ('code' in piece) return protect(piece.code);
+    const ranges = [...rangesOf(piece.text, builtInPatterns), ...(userRanges[textIndex++] ?? [])];
+    return maskText(piece.text, ranges, protect);
+  });
+  return { html: output.join(''), spans };
+};
+
+export const restoreProtectedSpans = (html: string, spans: string[]): RestoredHtml => {
+  const restoredIndices = new Set<number>();
+  const restored = html.replace(PLACEHOLDER_PATTERN, (match, index: string) => {
+    const span = spans[Number(index)];
+    if (span === undefined) return match;
+    restoredIndices.add(Number(index));
+    return span;
+  });
+  return { html: restored, missing: spans.flatMap((_, index) => (restoredIndices.has(index) ? [] : [index])) };
+};
+
+/**
+ * Restores placeholders in a translation that arrives piece by piece.
+ * A placeholder cut between two pieces is held back until its closing bracket arrives.
+ */
+export const createStreamingRestorer = (spans: string[]) => {
+  let pending = '';
+  return {
+    push(text: string): string {
+      pending += text;
+      const open = pending.lastIndexOf('⟦');
+      const cut = open !== -1 && !pending.includes('⟧', open) ? open : pending.length;
+      const ready = pending.slice(0, cut);
+      pending = pending.slice(cut);
+      return restoreProtectedSpans(ready, spans).html;
+    },
+    flush(): string {
+      const rest = pending;
+      pending = '';
+      return restoreProtectedSpans(rest, spans).html;
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import { GenerateRequest, JsonSchema, LlmProvider } from './types';
+
+export interface FakeFixture {
+  // Text the prompt or system instruction must contain (a regular expression when `regex` is true).
+  match: string;
+  regex?: boolean;
+  // Returned as-is for text requests; objects are returned from `generateJson` (or serialized for text).
+  response: string | object;
+}
+
+const STREAM_PIECE_LENGTH = 64;
+
+// Rough token counts (about four characters per token) so usage reporting can be exercised offline.
+const reportUsage = (request: GenerateRequest, output: string) => {
+  request.onUsage?.({
+    model: 'fake',
+    promptTokens: Math.ceil(((request.systemInstruction ?? '').length + request.prompt.length) / 4),
+    candidatesTokens: Math.ceil(output.length / 4),
+    thinkingTokens: 0,
+  });
+};
+
+// Builds a placeholder value that satisfies the schema, so JSON requests succeed without a fixture.
+const sampleFromSchema = (schema: JsonSchema, key = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, value]) => [name, sampleFromSchema(value, name)]),
+      );
+    case 'array':
+      return [sampleFromSchema(schema.items ?? { type: 'string' }, key)];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return `[fake] ${key}`;
+  }
+};
+
+/**
+ * Deterministic provider for offline runs and tests. The first fixture matching the request wins;
+ * without a match, text requests echo the prompt (an identity "translation" that keeps the HTML intact)
+ * and JSON requests get a placeholder built from the schema.
+ */
+export const createFakeProvider = (fixtures: FakeFixture[] = []): LlmProvider => {
+  const findFixture = (request: GenerateRequest) => {
+    const haystack = `${request.systemInstruction ?? ''}\n${request.prompt}`;
+    return fixtures.find(fixture =>
+      fixture.regex ? new RegExp(fixture.match).test(haystack) : haystack.includes(fixture.match),
+    );
+  };
+
+  const generateText = (request: GenerateRequest): string => {
+    request.signal?.throwIfAborted();
+    const fixture = findFixture(request);
+    if (!fixture) return request.prompt;
+    return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+  };
+
+  return {
+    name: 'fake',
+
+    async generate(request) {
+      const text = generateText(request);
+      reportUsage(request, text);
+      return text;
+    },
+
+    async generateJson<T>(request: GenerateRequest, schema: JsonSchema) {
+      request.signal?.throwIfAborted();
+      const fixture = findFixture(request);
+      const value = !fixture
+        ? sampleFromSchema(schema)
+        : typeof fixture.response === 'string' ? JSON.parse(fixture.response) : fixture.response;
+      reportUsage(request, JSON.stringify(value));
+      return value as T;
+    },
+
+    async *stream(request) {
+      const text = generateText(request);
+      reportUsage(request, text);
+      for (let i = 0; i < text.length; i += STREAM_PIECE_LENGTH) {
+        request.signal?.throwIfAborted();
+        yield text.slice(i, i + STREAM_PIECE_LENGTH);
+      }
+    },
+  };
+};
@@ -0,0 +1,131 @@
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from '@google/genai';
+import { AiModel } from '../../types';
+import { GenerateRequest, JsonSchema, LlmProvider, ProviderError, parseJsonText } from './types';
+
+// Both tiers run on gemini-2.5-flash; the lite tier turns thinking off for faster responses.
+export const getModelConfig = (model: AiModel) => {
+  if (model === 'gemini-2.5-flash-lite') {
+    return {
+      modelName: 'gemini-2.5-flash',
+      config: { thinkingConfig: { thinkingBudget: 0 } }
+    };
+  }
+  return {
+    modelName: 'gemini-2.5-flash',
+    config: {}
+  };
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  required: schema.required,
+});
+
+const STATUS_BY_GRPC_CODE: Record<string, number> = {
+  INVALID_ARGUMENT: 400,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  RESOURCE_EXHAUSTED: 429,
+  INTERNAL: 500,
+  UNAVAILABLE: 503,
+  DEADLINE_EXCEEDED: 504,
+};
+
+// The SDK reports HTTP failures only in the message ("got status: 429 Too Many Requests. {...}").
+const toProviderError = (error: unknown): ProviderError => {
+  if (error instanceof ProviderError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = message.match(/got status: (\d{3})/)?.[1];
+  const grpcCode = message.match(/got status: ([A-Z_]+)/)?.[1];
+  return new ProviderError(message, 'gemini', status ? Number(status) : grpcCode ? STATUS_BY_GRPC_CODE[grpcCode] : undefined);
+};
+
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION']);
+
+// A blocked prompt or answer comes back as a normal response without text, so it has to be detected explicitly.
+const textOrThrow = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.has(finishReason))) {
+    throw new ProviderError(`Gemini가 안전 정책에 따라 응답을 차단했습니다. (${blockReason ?? finishReason})`, 'gemini', undefined, 'SAFETY');
+  }
+  return response.text ?? '';
+};
+
+const reportUsage = (request: GenerateRequest, modelName: string, response: GenerateContentResponse | undefined) => {
+  const usage = response?.usageMetadata;
+  if (!usage || !request.onUsage) return;
+  request.onUsage({
+    model: modelName,
+    promptTokens: usage.promptTokenCount ?? 0,
+    candidatesTokens: usage.candidatesTokenCount ?? 0,
+    thinkingTokens: usage.thoughtsTokenCount ?? 0,
+  });
+};
+
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const toParams = (request: GenerateRequest) => {
+    const { modelName, config } = getModelConfig(request.model);
+    return {
+      model: modelName,
+      contents: request.prompt,
+      config: { systemInstruction: request.systemInstruction, abortSignal: request.signal, ...config },
+    };
+  };
+
+  return {
+    name: 'gemini',
+
+    async generate(request) {
+      try {
+        const params = toParams(request);
+        const response = await ai.models.generateContent(params);
+        reportUsage(request, params.model, response);
+        return textOrThrow(response);
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    async generateJson<T>(request: GenerateRequest, schema: JsonSchema) {
+      const params = toParams(request);
+      let text: string;
+      try {
+        const response = await ai.models.generateContent({
+          ...params,
+          config: { ...params.config, responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) },
+        });
+        reportUsage(request, params.model, response);
+        text = textOrThrow(response);
+      } catch (error) {
+        throw toProviderError(error);
+      }
+      return parseJsonText<T>(text, 'gemini');
+    },
+
+    async *stream(request) {
+      const params = toParams(request);
+      // Every chunk carries the running totals, so only the last one is reported.
+      let lastChunk: GenerateContentResponse | undefined;
+      try {
+        const stream = await ai.models.generateContentStream(params);
+        for await (const chunk of stream) {
+          if (chunk.usageMetadata) lastChunk = chunk;
+          const text = textOrThrow(chunk);
+          if (text) yield text;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      } finally {
+        reportUsage(request, params.model, lastChunk);
+      }
+    },
+  };
+};
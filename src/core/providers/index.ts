@@ -0,0 +1,6 @@
+export * from './types';
+export { createGeminiProvider, getModelConfig } from './gemini';
+export { createOpenAiCompatibleProvider } from './openaiCompatible';
+export type { OpenAiCompatibleOptions } from './openaiCompatible';
+export { createFakeProvider } from './fake';
+export type { FakeFixture } from './fake';
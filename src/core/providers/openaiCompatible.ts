@@ -0,0 +1,123 @@
+import { AiModel } from '../../types';
+import { GenerateRequest, JsonSchema, LlmProvider, ProviderError, parseJsonText } from './types';
+
+export interface OpenAiCompatibleOptions {
+  // Base URL of any server implementing the OpenAI chat completions API, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  apiKey?: string;
+  // Concrete model name to use for each user-facing tier.
+  models: Record<AiModel, string>;
+}
+
+const PROVIDER_NAME = 'openai-compatible';
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// Reasoning tokens are part of completion_tokens here, unlike Gemini's separate thoughtsTokenCount.
+const reportUsage = (request: GenerateRequest, model: string, usage: ChatUsage | undefined) => {
+  if (!usage || !request.onUsage) return;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  request.onUsage({
+    model,
+    promptTokens: usage.prompt_tokens ?? 0,
+    candidatesTokens: (usage.completion_tokens ?? 0) - thinkingTokens,
+    thinkingTokens,
+  });
+};
+
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleOptions): LlmProvider => {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: GenerateRequest, extra: object): Promise<Response> => {
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: options.models[request.model], messages, ...extra }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw new ProviderError(`Could not reach ${endpoint}: ${(error as Error).message}`, PROVIDER_NAME);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(`${response.status} ${response.statusText} ${detail}`.trim(), PROVIDER_NAME, response.status);
+    }
+    return response;
+  };
+
+  const complete = async (request: GenerateRequest, extra: object = {}): Promise<string> => {
+    const data = await (await post(request, extra)).json();
+    reportUsage(request, options.models[request.model], data.usage);
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new ProviderError('The server blocked the response with its content filter.', PROVIDER_NAME, undefined, 'SAFETY');
+    }
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    name: PROVIDER_NAME,
+
+    generate(request) {
+      return complete(request);
+    },
+
+    async generateJson<T>(request: GenerateRequest, schema: JsonSchema) {
+      // Not every local server honours `response_format`, so the schema is spelled out in the prompt as well.
+      const text = await complete(
+        {
+          ...request,
+          systemInstruction: [
+            request.systemInstruction,
+            `Respond with a single JSON object matching this JSON Schema: ${JSON.stringify(schema)}`,
+          ].filter(Boolean).join('\n\n'),
+        },
+        { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } },
+      );
+      return parseJsonText<T>(text, PROVIDER_NAME);
+    },
+
+    async *stream(request) {
+      // Servers that support it send the usage in a final chunk without choices.
+      const response = await post(request, { stream: true, stream_options: { include_usage: true } });
+      if (!response.body) throw new ProviderError('Streaming is not supported by this server.', PROVIDER_NAME);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let usage: ChatUsage | undefined;
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            const data = line.match(/^data:\s*(.*)$/)?.[1];
+            if (!data) continue;
+            if (data === '[DONE]') return;
+            const event = JSON.parse(data);
+            if (event.usage) usage = event.usage;
+            const delta = event.choices?.[0]?.delta?.content;
+            if (delta) yield delta as string;
+          }
+        }
+      } finally {
+        reportUsage(request, options.models[request.model], usage);
+      }
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import { AiModel, TokenUsage } from '../../types';
+import { stripMarkdown } from '../markdown';
+
+// Provider-neutral subset of JSON Schema used for structured (JSON) responses.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface GenerateRequest {
+  // The user-facing model tier; each provider maps it to a concrete model and settings.
+  model: AiModel;
+  prompt: string;
+  systemInstruction?: string;
+  // Called with the token usage of every model response, when the provider reports it.
+  onUsage?: (usage: ModelUsage) => void;
+  // Aborts the call, including a stream that is already running.
+  signal?: AbortSignal;
+}
+
+// Usage of a single call. `model` is the concrete model name, which is what prices are keyed by.
+export interface ModelUsage extends TokenUsage {
+  model: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  generate(request: GenerateRequest): Promise<string>;
+  generateJson<T>(request: GenerateRequest, schema: JsonSchema): Promise<T>;
+  stream(request: GenerateRequest): AsyncIterable<string>;
+}
+
+// Failures that are not visible from an HTTP status alone.
+export type ProviderErrorReason = 'SAFETY' | 'MALFORMED_OUTPUT';
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    public readonly reason?: ProviderErrorReason,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Parses a JSON answer, tolerating a surrounding markdown fence.
+export const parseJsonText = <T>(text: string, provider: string): T => {
+  const jsonString = stripMarkdown(text);
+  try {
+    return JSON.parse(jsonString) as T;
+  } catch {
+    console.error(`Failed to parse JSON response from ${provider}:`, jsonString);
+    throw new ProviderError('AI가 유효한 JSON 형식을 반환하지 않았습니다.', provider, undefined, 'MALFORMED_OUTPUT');
+  }
+};
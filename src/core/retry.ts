@@ -0,0 +1,158 @@
+import { LlmErrorKind } from '../types';
+import { GenerateRequest, JsonSchema, LlmProvider, ProviderError } from './providers/types';
+import { addUsage, UsageByModel } from './usage';
+
+// Kinds worth another attempt. Invalid requests and safety blocks fail the same way every time.
+export const RETRYABLE_KINDS = new Set<LlmErrorKind>(['RATE_LIMITED', 'OVERLOADED', 'TIMEOUT', 'MALFORMED_OUTPUT', 'UNKNOWN']);
+
+// Final failure of a wrapped call, after all retries were used up (or none were worth trying).
+export class LlmCallError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: LlmErrorKind,
+    public readonly retries: number,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmCallError';
+  }
+}
+
+export const classifyError = (error: unknown): LlmErrorKind => {
+  if (error instanceof LlmCallError) return error.kind;
+  if (!(error instanceof ProviderError)) return 'UNKNOWN';
+  if (error.reason === 'SAFETY') return 'SAFETY_BLOCKED';
+  if (error.reason === 'MALFORMED_OUTPUT') return 'MALFORMED_OUTPUT';
+  const status = error.status;
+  if (status === undefined) return 'UNKNOWN'; // Network failure before any response.
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status >= 500) return 'OVERLOADED';
+  if (status >= 400) return 'INVALID_REQUEST';
+  return 'UNKNOWN';
+};
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Epoch ms after which no new attempt is started; the whole job shares one deadline.
+  deadlineAt?: number;
+  // Passed to every call, along with the call's own signal; once aborted, running calls stop and nothing is retried.
+  signal?: AbortSignal;
+}
+
+export interface RetryStats {
+  retries: number;
+  lastErrorKind?: LlmErrorKind;
+}
+
+export interface RetryingProvider extends LlmProvider {
+  // Totals across every call made through this wrapper, for reporting back to the UI.
+  readonly stats: RetryStats;
+  // Tokens per concrete model, counting failed attempts too since they are billed all the same.
+  readonly usage: UsageByModel;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 16_000;
+
+// Resolves early when the signal aborts; the next attempt then fails as cancelled.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done, { once: true });
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  }
+});
+
+/**
+ * Wraps a provider so every call is retried on transient failures with full-jitter exponential backoff.
+ * Streams are only retried until their first chunk arrives, since the caller has already seen what came before.
+ */
+export const createRetryingProvider = (provider: LlmProvider, options: RetryOptions = {}): RetryingProvider => {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const stats: RetryStats = { retries: 0 };
+  const usage: UsageByModel = {};
+
+  const metered = (request: GenerateRequest): GenerateRequest => ({
+    ...request,
+    signal: request.signal && options.signal ? AbortSignal.any([request.signal, options.signal]) : request.signal ?? options.signal,
+    onUsage: callUsage => {
+      addUsage(usage, callUsage);
+      request.onUsage?.(callUsage);
+    },
+  });
+
+  const fail = (error: unknown, kind: LlmErrorKind, attempt: number, reason?: string): LlmCallError => {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = error instanceof ProviderError ? error.status : undefined;
+    stats.lastErrorKind = kind;
+    return new LlmCallError(reason ? `${message} (${reason})` : message, kind, attempt - 1, status);
+  };
+
+  // Whatever the call failed with, an aborted call was cancelled on purpose.
+  const kindOf = (error: unknown, signal: AbortSignal | undefined): LlmErrorKind =>
+    signal?.aborted ? 'CANCELLED' : classifyError(error);
+
+  // Returns how long to wait before the next attempt, or throws when the call should not be retried.
+  const backoffOrThrow = (error: unknown, attempt: number, signal: AbortSignal | undefined): number => {
+    const kind = kindOf(error, signal);
+    if (!RETRYABLE_KINDS.has(kind)) throw fail(error, kind, attempt);
+    if (attempt >= maxAttempts) throw fail(error, kind, attempt, `${attempt}회 시도 후 실패`);
+    const delayMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    if (options.deadlineAt !== undefined && Date.now() + delayMs >= options.deadlineAt) {
+      throw fail(error, kind, attempt, '작업 제한 시간 초과로 재시도 중단');
+    }
+    stats.lastErrorKind = kind;
+    console.warn(`LLM call failed (${kind}, attempt ${attempt}/${maxAttempts}); retrying in ${Math.round(delayMs)}ms`);
+    stats.retries++;
+    return delayMs;
+  };
+
+  const withRetry = async <T>(request: GenerateRequest, call: (request: GenerateRequest) => Promise<T>): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call(request);
+      } catch (error) {
+        await sleep(backoffOrThrow(error, attempt, request.signal), request.signal);
+      }
+    }
+  };
+
+  return {
+    name: provider.name,
+    stats,
+    usage,
+
+    generate(request: GenerateRequest) {
+      return withRetry(metered(request), request => provider.generate(request));
+    },
+
+    generateJson<T>(request: GenerateRequest, schema: JsonSchema) {
+      return withRetry(metered(request), request => provider.generateJson<T>(request, schema));
+    },
+
+    async *stream(originalRequest: GenerateRequest) {
+      const request = metered(originalRequest);
+      for (let attempt = 1; ; attempt++) {
+        let started = false;
+        try {
+          for await (const text of provider.stream(request)) {
+            started = true;
+            yield text;
+          }
+          return;
+        } catch (error) {
+          if (started) throw fail(error, kindOf(error, request.signal), attempt);
+          await sleep(backoffOrThrow(error, attempt, request.signal), request.signal);
+        }
+      }
+    },
+  };
+};
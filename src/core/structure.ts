@@ -0,0 +1,123 @@
+import { StructureIssue } from '../types';
+import { alignBlocks } from './alignment';
+import { BLOCK_ELEMENTS } from './chunking';
+import { htmlToText, tokenizeHtml } from './html';
+
+// Checks that a translation kept the structure of its source, as the translation prompt asks.
+// Blocks are paired with the alignment of ./alignment, so one merged paragraph does not make every block after it differ.
+// Within a pair the inline tags are compared as a multiset, since translating legitimately reorders them
+// (a link may move to the other end of the sentence); links and code must come through unchanged.
+
+export interface StructureComparison {
+  issues: StructureIssue[];
+  // Share of the source blocks involved in at least one issue, from 0 to 1
+  ratio: number;
+  // Translations of the source blocks that came through intact, by source block HTML (as split by splitBlocks)
+  intact: Map<string, string>;
+}
+
+// Code longer than this is shortened in issues.
+const MAX_CODE_EXCERPT_CHARS = 80;
+const MAX_EXCERPT_CHARS = 60;
+
+const HREF_PATTERN = /\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+
+const excerptOf = (text: string, maxChars: number): string => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized.length > maxChars ? `${normalized.slice(0, maxChars)}…` : normalized;
+};
+
+const blockTagOf = (html: string): string => {
+  const token = tokenizeHtml(html).find(t => t.type === 'open' && BLOCK_ELEMENTS.has(t.name));
+  return token?.type === 'open' ? token.name : 'text';
+};
+
+interface StructureFeatures {
+  tags: string[];
+  links: string[];
+  code: string[];
+}
+
+// Element names, link targets and the text of each outermost <pre> or <code> element of a fragment.
+const featuresOf = (html: string): StructureFeatures => {
+  const features: StructureFeatures = { tags: [], links: [], code: [] };
+  let codeDepth = 0;
+  let codeText = '';
+  for (const token of tokenizeHtml(html)) {
+    if (token.type === 'open') {
+      features.tags.push(token.name);
+      const href = HREF_PATTERN.exec(token.raw);
+      if (token.name === 'a' && href) features.links.push((href[1] ?? href[2] ?? href[3]).trim());
+      if ((token.name === 'pre' || token.name === 'code') && !token.selfClosing) codeDepth++;
+    } else if (token.type === 'close') {
+      if ((token.name === 'pre' || token.name === 'code') && codeDepth > 0 && --codeDepth === 0) {
+        features.code.push(htmlToText(codeText).replace(/\s+/g, ' ').trim());
+        codeText = '';
+      }
+    } else if (token.type === 'text' && codeDepth > 0) {
+      codeText += token.raw;
+    }
+  }
+  return features;
+};
+
+// Values the first list has more often than the second.
+const missingFrom = (expected: string[], actual: string[]): string[] => {
+  const remaining = new Map<string, number>();
+  for (const value of actual) remaining.set(value, (remaining.get(value) ?? 0) + 1);
+  return expected.filter(value => {
+    const count = remaining.get(value) ?? 0;
+    if (count === 0) return true;
+    remaining.set(value, count - 1);
+    return false;
+  });
+};
+
+const differences = (
+  kind: StructureIssue['kind'],
+  expected: string[],
+  actual: string[],
+  excerpt = (value: string) => value,
+): Omit<StructureIssue, 'block' | 'excerpt'>[] => {
+  const missing = missingFrom(expected, actual).map(excerpt);
+  const extra = missingFrom(actual, expected).map(excerpt);
+  return missing.length + extra.length > 0 ? [{ kind, missing, extra }] : [];
+};
+
+const compareFeatures = (source: StructureFeatures, target: StructureFeatures, compareTags: boolean) => [
+  ...(compareTags ? differences('tags', source.tags, target.tags) : []),
+  ...differences('links', source.links, target.links),
+  ...differences('code', source.code, target.code, code => excerptOf(code, MAX_CODE_EXCERPT_CHARS)),
+];
+
+// True when the translation of a single block has the same tags, links and code as the block.
+export const blockStructureMatches = (sourceHtml: string, translatedHtml: string): boolean =>
+  compareFeatures(featuresOf(sourceHtml), featuresOf(translatedHtml), true).length === 0;
+
+export const compareStructure = (sourceHtml: string, translatedHtml: string): StructureComparison => {
+  const alignment = alignBlocks(sourceHtml, translatedHtml);
+  const issues: StructureIssue[] = [];
+  const intact = new Map<string, string>();
+  let block = 0;
+  let affectedBlocks = 0;
+
+  for (const pair of alignment.pairs) {
+    const sourceHtmlOfPair = pair.source.join('');
+    const targetHtmlOfPair = pair.target.join('');
+    const isOneToOne = pair.source.length === 1 && pair.target.length === 1;
+    const pairIssues = [
+      ...(isOneToOne ? [] : differences('blocks', pair.source.map(blockTagOf), pair.target.map(blockTagOf))),
+      ...compareFeatures(featuresOf(sourceHtmlOfPair), featuresOf(targetHtmlOfPair), isOneToOne),
+    ];
+    if (pairIssues.length > 0) {
+      const excerpt = excerptOf(htmlToText(sourceHtmlOfPair || targetHtmlOfPair, { blockBreaks: true }), MAX_EXCERPT_CHARS);
+      issues.push(...pairIssues.map(issue => ({ ...issue, block, excerpt })));
+      affectedBlocks += Math.max(1, pair.source.length);
+    } else if (isOneToOne) {
+      intact.set(pair.source[0], pair.target[0]);
+    }
+    block += pair.source.length;
+  }
+
+  return { issues, ratio: alignment.sourceBlocks ? Math.min(1, affectedBlocks / alignment.sourceBlocks) : 0, intact };
+};
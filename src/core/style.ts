@@ -0,0 +1,57 @@
+import { TargetLanguage, TranslationStyle } from '../types';
+
+// Style instructions for the translation prompts. The same block goes into the analysis translation
+// and into every chunk of the full translation, so the summary and the body read alike.
+
+const REGISTER_RULES: Record<NonNullable<TranslationStyle['register']>, string> = {
+  hapsyo: 'Write in the formal polite speech level 합쇼체: end sentences with -ㅂ니다/-습니다 (e.g. "제공합니다").',
+  haeyo: 'Write in the polite speech level 해요체: end sentences with -아요/-어요 (e.g. "제공해요").',
+  handa: 'Write in the plain written style 한다체 used in reports and articles: end sentences with -다 (e.g. "제공한다").',
+};
+
+const FORMALITY_RULES: Record<NonNullable<TranslationStyle['formality']>, string> = {
+  formal: 'Use a formal tone and vocabulary.',
+  neutral: 'Use a neutral tone, neither stiff nor chatty.',
+  casual: 'Use a casual, conversational tone.',
+};
+
+const AUDIENCE_RULES: Record<NonNullable<TranslationStyle['audience']>, string> = {
+  general: 'The readers are a general audience.',
+  expert: 'The readers are experts in the subject; keep technical terms precise and do not simplify.',
+  executive: 'The readers are executives; prefer short, direct phrasing.',
+  beginner: 'The readers are new to the subject; prefer plain words over jargon where the meaning allows.',
+};
+
+const FIDELITY_RULES: Record<NonNullable<TranslationStyle['fidelity']>, string> = {
+  literal: 'Translate closely, keeping the wording and sentence structure of the source even where it reads less smoothly.',
+  natural: 'Translate for natural, idiomatic reading; restructure sentences freely as long as the meaning stays the same.',
+};
+
+// The style fields that apply to the target language; the register only exists for Korean.
+export const effectiveStyle = (style: TranslationStyle, targetLanguage: TargetLanguage): TranslationStyle => {
+  const { register, ...rest } = style;
+  const applicable: TranslationStyle = targetLanguage === 'ko' && register ? { register, ...rest } : rest;
+  return Object.fromEntries(Object.entries(applicable).filter(([, value]) => value !== undefined));
+};
+
+export const isDefaultStyle = (style: TranslationStyle | undefined): boolean =>
+  !style || Object.values(style).every(value => value === undefined);
+
+// Identifies a style, e.g. for keeping translations of different styles apart in the translation memory; '' for no style.
+export const styleKey = (style: TranslationStyle | undefined): string =>
+  !style || isDefaultStyle(style) ? '' : [style.register, style.formality, style.audience, style.fidelity].map(value => value ?? '').join('|');
+
+export const buildStyleInstruction = (style: TranslationStyle, targetLanguage: TargetLanguage): string => {
+  const applicable = effectiveStyle(style, targetLanguage);
+  const rules = [
+    applicable.register && REGISTER_RULES[applicable.register],
+    applicable.formality && FORMALITY_RULES[applicable.formality],
+    applicable.audience && AUDIENCE_RULES[applicable.audience],
+    applicable.fidelity && FIDELITY_RULES[applicable.fidelity],
+  ].filter((rule): rule is string => !!rule);
+  if (rules.length === 0) return '';
+  return `
+
+STYLE: apply the following consistently to every sentence.
+${rules.map(rule => `- ${rule}`).join('\n')}`;
+};
@@ -0,0 +1,190 @@
+import { TargetLanguage } from '../types';
+import { htmlToText } from './html';
+
+// Translation memory: earlier translations of single block elements (see splitBlocks in ./chunking).
+// An exact match is reused as-is; similar segments are shown to the model as references.
+// Storage is up to the caller (see api/_lib/translationMemory.ts); this module keeps the units in memory.
+
+export interface TranslationUnit {
+  // Source segment HTML, normalized with normalizeSegment
+  source: string;
+  target: string;
+  targetLanguage: TargetLanguage;
+  // ISO 639-1 code of the source, or 'und' when it was not known
+  sourceLanguage: string;
+  model?: string;
+  // Style the block was translated in (see styleKey in ./style); absent when it was left to the model
+  style?: string;
+  // Fingerprint of the glossary entries and protection settings the block was translated with (see fingerprintOf);
+  // absent when there were none
+  context?: string;
+  updatedAt: number; // epoch ms
+}
+
+export interface FuzzyMatch {
+  unit: TranslationUnit;
+  // Similarity of the plain texts, from 0 to 1
+  similarity: number;
+}
+
+// Translations in one style are never offered for another; `style` is a styleKey, '' for the model's own choice.
+// Exact matches are only reused for the same `context` as well, while similar segments are offered whatever theirs:
+// the model sees the current glossary next to them.
+export interface TranslationMemory {
+  // Translation of exactly this segment, if there is one.
+  lookup(source: string, targetLanguage: TargetLanguage, style?: string, context?: string): string | undefined;
+  // Similar segments, best first; the same segment only when it was translated in another context.
+  findSimilar(source: string, targetLanguage: TargetLanguage, style?: string, context?: string, limit?: number): FuzzyMatch[];
+  add(units: Omit<TranslationUnit, 'updatedAt'>[]): void;
+  units(): TranslationUnit[];
+}
+
+export interface TranslationMemoryOptions {
+  // Units kept at most; the least recently updated go first.
+  maxUnits?: number;
+  // Below this similarity a segment is not offered as a reference.
+  minSimilarity?: number;
+  // Called after units were added, e.g. to persist them.
+  onChange?: (units: TranslationUnit[]) => void;
+}
+
+const DEFAULT_MAX_UNITS = 20_000;
+const DEFAULT_MIN_SIMILARITY = 0.7;
+const DEFAULT_FUZZY_LIMIT = 2;
+// Segments with less text than this say too little for a fuzzy match to help.
+const MIN_FUZZY_TEXT_CHARS = 20;
+
+// Whitespace differences do not make a segment new.
+export const normalizeSegment = (html: string): string => html.replace(/\s+/g, ' ').trim();
+
+const keyOf = (source: string, targetLanguage: TargetLanguage, style = '', context = '') =>
+  `${targetLanguage}\u0000${style}\u0000${context}\u0000${normalizeSegment(source)}`;
+
+// Short FNV-1a hash of a value's JSON, for TranslationUnit.context.
+export const fingerprintOf = (value: unknown): string => {
+  const json = JSON.stringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Character bigram counts of a text, computed once per unit for fuzzy matching.
+interface TextProfile {
+  bigrams: Map<string, number>;
+  size: number;
+}
+
+const profileOf = (text: string): TextProfile => {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const bigram = normalized.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return { bigrams, size: Math.max(0, normalized.length - 1) };
+};
+
+// Dice coefficient over character bigrams: 1 for the same text, 0 for texts without a bigram in common.
+const diceSimilarity = (a: TextProfile, b: TextProfile): number => {
+  if (a.size + b.size === 0) return 0;
+  let shared = 0;
+  for (const [bigram, count] of a.bigrams) shared += Math.min(count, b.bigrams.get(bigram) ?? 0);
+  return (2 * shared) / (a.size + b.size);
+};
+
+export const createTranslationMemory = (initialUnits: TranslationUnit[] = [], options: TranslationMemoryOptions = {}): TranslationMemory => {
+  const maxUnits = options.maxUnits ?? DEFAULT_MAX_UNITS;
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  // Two texts whose lengths differ by more than this factor stay below minSimilarity whatever they contain.
+  const maxLengthRatio = 2 / minSimilarity - 1;
+  // Map keeps insertion order, so re-inserting an updated unit makes it the most recent one.
+  const units = new Map<string, TranslationUnit>();
+  const profiles = new Map<string, TextProfile>();
+
+  const put = (unit: TranslationUnit) => {
+    const key = keyOf(unit.source, unit.targetLanguage, unit.style, unit.context);
+    units.delete(key);
+    units.set(key, { ...unit, source: normalizeSegment(unit.source) });
+    profiles.set(key, profileOf(htmlToText(unit.source)));
+  };
+
+  const evict = () => {
+    for (const key of units.keys()) {
+      if (units.size <= maxUnits) break;
+      units.delete(key);
+      profiles.delete(key);
+    }
+  };
+
+  initialUnits.forEach(put);
+  evict();
+
+  return {
+    lookup(source, targetLanguage, style = '', context = '') {
+      return units.get(keyOf(source, targetLanguage, style, context))?.target;
+    },
+    findSimilar(source, targetLanguage, style = '', context = '', limit = DEFAULT_FUZZY_LIMIT) {
+      const text = htmlToText(source);
+      if (text.trim().length < MIN_FUZZY_TEXT_CHARS) return [];
+      const profile = profileOf(text);
+      const ownKey = keyOf(source, targetLanguage, style, context);
+      const matches: FuzzyMatch[] = [];
+      for (const [key, unit] of units) {
+        if (key === ownKey || unit.targetLanguage !== targetLanguage || (unit.style ?? '') !== style) continue;
+        const candidate = profiles.get(key);
+        if (!candidate) continue;
+        // Texts of very different length cannot reach the threshold; skip them before comparing.
+        const ratio = candidate.size / profile.size;
+        if (ratio > maxLengthRatio || ratio < 1 / maxLengthRatio) continue;
+        const similarity = diceSimilarity(profile, candidate);
+        if (similarity >= minSimilarity) matches.push({ unit, similarity });
+      }
+      return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+    },
+    add(newUnits) {
+      if (newUnits.length === 0) return;
+      const now = Date.now();
+      for (const unit of newUnits) put({ ...unit, updatedAt: now });
+      evict();
+      options.onChange?.([...units.values()]);
+    },
+    units() {
+      return [...units.values()];
+    },
+  };
+};
+
+// --- TMX ---
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// TMX dates are UTC in the basic ISO 8601 format, e.g. 20240131T093000Z.
+const tmxDate = (epochMs: number) => new Date(epochMs).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+/**
+ * Writes the units as TMX 1.4. Segments hold the block's HTML as text, so markup survives the round trip;
+ * the model that produced a translation, its style and its context are kept as x-model, x-style and x-context properties.
+ */
+export const formatTmx = (units: TranslationUnit[]): string => {
+  const tus = units.map(unit => {
+    const model = unit.model ? `\n      <prop type="x-model">${escapeXml(unit.model)}</prop>` : '';
+    const style = unit.style ? `\n      <prop type="x-style">${escapeXml(unit.style)}</prop>` : '';
+    const context = unit.context ? `\n      <prop type="x-context">${escapeXml(unit.context)}</prop>` : '';
+    return `    <tu changedate="${tmxDate(unit.updatedAt)}">${model}${style}${context}
+      <tuv xml:lang="${unit.sourceLanguage}"><seg>${escapeXml(unit.source)}</seg></tuv>
+      <tuv xml:lang="${unit.targetLanguage}"><seg>${escapeXml(unit.target)}</seg></tuv>
+    </tu>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="LinguaScope" creationtoolversion="1.0" segtype="block" o-tmf="LinguaScope" adminlang="en" srclang="*all*" datatype="html"/>
+  <body>
+${tus.join('\n')}
+  </body>
+</tmx>
+`;
+};
@@ -0,0 +1,52 @@
+import { TokenUsage, UsageSummary } from '../types';
+import { ModelUsage } from './providers/types';
+
+// USD per million tokens for one concrete model. Thinking tokens are billed at the output rate unless set.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  thinkingPerMillion?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Paid-tier list prices at the time of writing; override per deployment (see api/_lib/runtime.ts).
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+};
+
+// Token totals per concrete model, as collected from `GenerateRequest.onUsage`.
+export type UsageByModel = Record<string, TokenUsage>;
+
+export const EMPTY_USAGE: UsageSummary = { promptTokens: 0, candidatesTokens: 0, thinkingTokens: 0, estimatedCostUsd: 0 };
+
+export const addUsage = (usageByModel: UsageByModel, usage: ModelUsage) => {
+  const totals = usageByModel[usage.model] ??= { promptTokens: 0, candidatesTokens: 0, thinkingTokens: 0 };
+  totals.promptTokens += usage.promptTokens;
+  totals.candidatesTokens += usage.candidatesTokens;
+  totals.thinkingTokens += usage.thinkingTokens;
+};
+
+// Models missing from the table (local servers, the fake provider) are counted at no cost.
+export const estimateCost = (model: string, usage: TokenUsage, prices: PriceTable): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  return (
+    usage.promptTokens * price.inputPerMillion +
+    usage.candidatesTokens * price.outputPerMillion +
+    usage.thinkingTokens * (price.thinkingPerMillion ?? price.outputPerMillion)
+  ) / 1_000_000;
+};
+
+export const sumUsage = (summaries: UsageSummary[]): UsageSummary =>
+  summaries.reduce((sum, usage) => ({
+    promptTokens: sum.promptTokens + usage.promptTokens,
+    candidatesTokens: sum.candidatesTokens + usage.candidatesTokens,
+    thinkingTokens: sum.thinkingTokens + usage.thinkingTokens,
+    estimatedCostUsd: sum.estimatedCostUsd + usage.estimatedCostUsd,
+  }), EMPTY_USAGE);
+
+export const summarizeUsage = (usageByModel: UsageByModel, prices: PriceTable): UsageSummary =>
+  sumUsage(Object.entries(usageByModel).map(([model, usage]) => ({ ...usage, estimatedCostUsd: estimateCost(model, usage, prices) })));
@@ -1,126 +1,158 @@
-import { Readability } from "@mozilla/readability";
-import DOMPurify from 'dompurify';
-import { AiModel, AnalysisOutput } from '../types';
+import {
+    AiModel, GlossaryEntry, JobArtifacts, JobInput, JobSnapshot, ProtectionSettings, ProxyAction, ProxyResponseMeta, TargetLanguage, TranslationStyle,
+} from '../types';
+import { CancelledError, NetworkError, errorFromResponse, isAbortError } from './errors';
+
+export interface ProxyCallOptions {
+    // Skip the proxy's response cache and generate a fresh result.
+    bypassCache?: boolean;
+    // Epoch ms by which the whole job should finish; the proxy stops retrying LLM calls after it.
+    deadlineAt?: number;
+    // Receives the response metadata, e.g. whether the result was served from the cache or needed retries.
+    onMeta?: (action: ProxyAction, meta: ProxyResponseMeta) => void;
+    // Aborts the request; the proxy then stops its page fetch or model call as well.
+    signal?: AbortSignal;
+}
+
+const cancelledError = (stage?: ProxyAction) => new CancelledError('요청이 취소되었습니다.', 'CANCELLED', false, stage);
+
+// --- Access token ---
+// Sent as a bearer token on every API call; required when the server is configured with API_TOKENS.
+const ACCESS_TOKEN_KEY = 'lingua-canvas-access-token';
+
+export const getAccessToken = (): string => localStorage.getItem(ACCESS_TOKEN_KEY) ?? '';
+
+export const setAccessToken = (token: string) => {
+    if (token.trim()) {
+        localStorage.setItem(ACCESS_TOKEN_KEY, token.trim());
+    } else {
+        localStorage.removeItem(ACCESS_TOKEN_KEY);
+    }
+};
+
+function requestHeaders(): Record<string, string> {
+    const token = getAccessToken();
+    return token
+        ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+        : { 'Content-Type': 'application/json' };
+}
 
 // --- Helper for API calls to our proxy ---
-async function callApiProxy(action: string, payload: object) {
+// Failures are thrown as ApiRequestError subclasses (see ./errors) so the UI can tell them apart.
+async function postToProxy(action: ProxyAction, payload: object, options: ProxyCallOptions): Promise<Response> {
+    let response: Response;
     try {
-        const response = await fetch('/api/proxy', {
+        response = await fetch('/api/proxy', {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ action, payload }),
+            headers: requestHeaders(),
+            body: JSON.stringify({ action, payload, bypassCache: options.bypassCache ?? false, deadlineAt: options.deadlineAt }),
+            signal: options.signal,
         });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-            throw new Error(data.error || `서버 에러: ${response.status}`);
-        }
-
-        return data.result;
     } catch (error) {
+        if (isAbortError(error)) throw cancelledError(action);
         console.error(`API Proxy call failed for action '${action}':`, error);
-        if (error instanceof Error) {
-            throw new Error(`요청 실패: ${error.message}`);
-        }
-        throw new Error(`'${action}' 동작을 수행하는 중 알 수 없는 오류가 발생했습니다.`);
+        throw new NetworkError(`요청 실패: ${(error as Error).message}`, 'NETWORK_ERROR', true, action);
     }
-}
 
+    if (!response.ok) {
+        const apiError = await errorFromResponse(response, action);
+        console.error(`API Proxy call failed for action '${action}':`, apiError);
+        throw apiError;
+    }
+    return response;
+}
 
-const UNWANTED_TAGS = [
-    'script', 'style', 'nav', 'footer', 'aside', 'header', 'form', 'dialog', 'iframe',
-];
-const UNWANTED_SELECTORS = [
-    '[role="navigation"]', '[role="search"]', '[class*="ad"]', '[id*="ad-"]', 
-    '[class*="comment"]', '[id*="comment"]', '[class*="cookie"]', '[id*="cookie"]',
-    '[class*="promo"]', '[id*="promo"]', '[class*="sidebar"]', '[id*="sidebar"]',
-    '[class*="social"]', '[id*="social"]'
-];
+async function callApiProxy(action: ProxyAction, payload: object, options: ProxyCallOptions = {}) {
+    const response = await postToProxy(action, payload, options);
+    let data;
+    try {
+        data = await response.json();
+    } catch (error) {
+        if (isAbortError(error)) throw cancelledError(action);
+        throw error;
+    }
+    if (data.meta) {
+        options.onMeta?.(action, data.meta);
+    }
+    return data.result;
+}
 
-export const fetchUrlContent = async (url: string): Promise<string> => {
-    // Vercel 환경에서는 CORS 프록시가 필요 없을 수 있으나, 만약을 위해 유지합니다.
-    const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(url)}`;
+export interface BlockRetranslationOptions {
+    glossary?: GlossaryEntry[];
+    protection?: ProtectionSettings;
+    style?: TranslationStyle;
+    // The reader's request, e.g. "more literal"
+    instruction?: string;
+}
 
-    try {
-        const response = await fetch(proxyUrl);
-        if (!response.ok) {
-            let errorMessage = `서버가 ${response.status} 코드로 응답했습니다. (${response.statusText})`;
-            throw new Error(errorMessage);
-        }
-        const html = await response.text();
-        
-        const doc = new DOMParser().parseFromString(html, 'text/html');
-        let contentToProcess: string;
-
-        const reader = new Readability(doc.cloneNode(true) as Document);
-        const article = reader.parse();
-
-        if (article && article.content && article.textContent.trim().length > 100) {
-            contentToProcess = article.content;
-        } else {
-            console.warn("Readability failed, falling back to manual cleaning.");
-            const selectorsToRemove = [...UNWANTED_TAGS, ...UNWANTED_SELECTORS];
-            doc.querySelectorAll(selectorsToRemove.join(', ')).forEach(el => el.remove());
-            contentToProcess = doc.body.innerHTML;
-        }
-
-        const sanitizedContent = DOMPurify.sanitize(contentToProcess, {
-            USE_PROFILES: { html: true },
-            ALLOWED_TAGS: ['h1', 'h2', 'h3', 'p', 'b', 'i', 'em', 'strong', 'ul', 'ol', 'li', 'a', 'br', 'blockquote', 'pre', 'code'],
-            ALLOWED_ATTR: ['href'] 
-        });
+// Translates one block of the source again; the other blocks and the translation memory are not involved.
+export const retranslateBlock = (
+    blockHtml: string,
+    model: AiModel,
+    targetLanguage: TargetLanguage,
+    blockOptions: BlockRetranslationOptions,
+    options: ProxyCallOptions = {},
+): Promise<string> => {
+    return callApiProxy('retranslateBlock', { contentHtml: blockHtml, model, targetLanguage, ...blockOptions }, options);
+};
 
-        const contentDoc = new DOMParser().parseFromString(`<body>${sanitizedContent}</body>`, 'text/html');
-        contentDoc.querySelectorAll('a').forEach(a => {
-            try {
-                const href = a.getAttribute('href');
-                if (href) {
-                    a.setAttribute('href', new URL(href, url).href);
-                    a.setAttribute('target', '_blank');
-                    a.setAttribute('rel', 'noopener noreferrer');
-                }
-            } catch (e) {
-                a.removeAttribute('href');
-            }
-        });
+// `language` is the language the content is already in; the result stays in that language.
+export const enhanceReadability = (contentHtml: string, language: TargetLanguage, options: ProxyCallOptions = {}): Promise<string> => {
+    return callApiProxy('enhanceReadability', { contentHtml, targetLanguage: language }, options);
+};
 
-        const finalHtml = contentDoc.body.innerHTML;
-        
-        const tempDiv = document.createElement('div');
-        tempDiv.innerHTML = finalHtml;
-        if (!tempDiv.textContent?.trim()) {
-            throw new Error("페이지에서 텍스트 콘텐츠를 추출하지 못했습니다.");
-        }
+// --- Asynchronous jobs (/api/jobs) ---
+// The server runs the whole pipeline; the browser only creates the job and polls it.
 
-        return finalHtml;
+async function callJobApi(path: string, init: RequestInit = {}): Promise<JobSnapshot> {
+    let response: Response;
+    try {
+        response = await fetch(path, { ...init, headers: requestHeaders() });
     } catch (error) {
-        console.error("콘텐츠를 가져오는 중 오류 발생:", error);
-         if (error instanceof Error) {
-            throw error;
-        }
-        throw new Error("URL에서 콘텐츠를 가져오는 중 알 수 없는 오류가 발생했습니다.");
+        if (isAbortError(error)) throw cancelledError();
+        console.error(`Job API call failed for '${path}':`, error);
+        throw new NetworkError(`요청 실패: ${(error as Error).message}`, 'NETWORK_ERROR', true);
     }
-};
+    if (!response.ok) {
+        throw await errorFromResponse(response);
+    }
+    const data = await response.json();
+    return data.job;
+}
 
-export const detectLanguage = (contentHtml: string): Promise<string> => {
-    return callApiProxy('detectLanguage', { contentHtml });
+// `resume` holds the artifacts of a failed job; the stages that produced them are not run again.
+export const createJob = (
+    input: JobInput,
+    options: { bypassCache?: boolean; resume?: JobArtifacts; signal?: AbortSignal } = {},
+): Promise<JobSnapshot> => {
+    return callJobApi('/api/jobs', {
+        method: 'POST',
+        body: JSON.stringify({ ...input, bypassCache: options.bypassCache ?? false, resume: options.resume }),
+        signal: options.signal,
+    });
 };
 
-export const performAnalysis = (contentHtml: string, model: AiModel): Promise<AnalysisOutput> => {
-    return callApiProxy('performAnalysis', { contentHtml, model });
+export const getJob = (jobId: string, options: { signal?: AbortSignal } = {}): Promise<JobSnapshot> => {
+    return callJobApi(`/api/jobs/${encodeURIComponent(jobId)}`, { signal: options.signal });
 };
 
-export const translateAnalysis = (analysis: AnalysisOutput, model: AiModel): Promise<AnalysisOutput> => {
-    return callApiProxy('translateAnalysis', { analysis, model });
+export const cancelJob = (jobId: string): Promise<JobSnapshot> => {
+    return callJobApi(`/api/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
 };
 
-export const performTranslation = (contentHtml: string, model: AiModel): Promise<string> => {
-    return callApiProxy('performTranslation', { contentHtml, model });
-};
+// --- Translation memory ---
 
-export const enhanceReadability = (contentHtml: string): Promise<string> => {
-    return callApiProxy('enhanceReadability', { contentHtml });
+// The server's translation memory as a TMX document.
+export const exportTranslationMemory = async (): Promise<string> => {
+    let response: Response;
+    try {
+        response = await fetch('/api/translation-memory', { headers: requestHeaders() });
+    } catch (error) {
+        console.error('Translation memory export failed:', error);
+        throw new NetworkError(`요청 실패: ${(error as Error).message}`, 'NETWORK_ERROR', true);
+    }
+    if (!response.ok) {
+        throw await errorFromResponse(response);
+    }
+    return response.text();
 };
@@ -0,0 +1,155 @@
+import { ApiErrorCode, ApiErrorEnvelope, LlmErrorKind, ProxyAction } from '../types';
+
+export type ClientErrorCode = ApiErrorCode | 'NETWORK_ERROR';
+
+// Base class for every failure reported by /api/proxy (or on the way to it).
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ClientErrorCode,
+    public readonly retryable: boolean,
+    public readonly stage?: ProxyAction,
+    public readonly status?: number,
+    // Set when the failure came from an LLM call: how the proxy classified it and how often it retried.
+    public readonly classification?: LlmErrorKind,
+    public readonly retries?: number,
+    // Seconds to wait before trying again, when the server said so.
+    public readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  // What the user can do about it, shown in the ERROR view.
+  get guidance(): string {
+    return '잠시 후 다시 시도해주세요. 문제가 계속되면 다른 모델을 선택해보세요.';
+  }
+}
+
+export class InvalidRequestError extends ApiRequestError {
+  get guidance(): string {
+    if (this.code === 'NOT_FOUND') {
+      return '작업을 찾을 수 없습니다. 서버가 다시 시작되었거나 보관 기간이 지났을 수 있습니다. 새로 시작해주세요.';
+    }
+    if (this.code === 'URL_NOT_ALLOWED') {
+      return '내부 네트워크 주소나 http/https가 아닌 URL은 분석할 수 없습니다. 공개된 웹 페이지 주소를 입력해주세요.';
+    }
+    return '입력한 URL 또는 텍스트를 확인한 뒤 다시 시도해주세요.';
+  }
+}
+
+export class UnauthorizedError extends ApiRequestError {
+  get guidance(): string {
+    return '이 서버는 접근 토큰이 있어야 사용할 수 있습니다. 관리자에게 받은 토큰을 입력해주세요.';
+  }
+}
+
+// This deployment's own per-client limits, as opposed to the AI provider's (RateLimitError).
+export class QuotaExceededError extends ApiRequestError {
+  get guidance(): string {
+    // Per-minute limits reset within a minute; a longer wait means the daily quota is used up.
+    return (this.retryAfter ?? 0) > 60
+      ? '오늘 사용할 수 있는 처리량을 모두 사용했습니다. 한도가 초기화된 뒤 다시 시도해주세요.'
+      : '짧은 시간에 요청이 너무 많았습니다. 잠시 기다린 뒤 다시 시도해주세요.';
+  }
+}
+
+export class ContentTooLargeError extends ApiRequestError {
+  get guidance(): string {
+    return '본문이 너무 깁니다. TEXT 모드로 필요한 부분만 붙여넣어 다시 시도해주세요.';
+  }
+}
+
+export class RateLimitError extends ApiRequestError {
+  get guidance(): string {
+    return '요청 한도를 초과했습니다. 잠시 기다린 뒤 다시 시도해주세요.';
+  }
+}
+
+export class UpstreamTimeoutError extends ApiRequestError {
+  get guidance(): string {
+    return '응답 시간이 초과되었습니다. Flash-lite (빠름) 모델을 선택하거나 더 짧은 본문으로 다시 시도해주세요.';
+  }
+}
+
+export class UpstreamError extends ApiRequestError {
+  get guidance(): string {
+    if (this.code === 'UNSUPPORTED_CONTENT') {
+      return 'HTML 문서가 아닌 페이지입니다. 기사나 블로그 글처럼 본문이 있는 웹 페이지 주소를 입력해주세요.';
+    }
+    if (this.classification === 'MALFORMED_OUTPUT') {
+      return 'AI가 올바른 형식의 응답을 만들지 못했습니다. 다른 모델을 선택해 다시 시도해보세요.';
+    }
+    if (this.classification === 'INVALID_REQUEST') {
+      return 'AI 모델이 요청을 거부했습니다. 본문을 줄이거나 다른 모델을 선택해보세요.';
+    }
+    return 'AI 모델 또는 대상 서버에 일시적인 문제가 있습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+export class ContentBlockedError extends ApiRequestError {
+  get guidance(): string {
+    return 'AI 모델의 안전 정책에 따라 응답이 차단되었습니다. 다시 시도해도 같은 결과가 나올 수 있으니, 문제가 될 수 있는 부분을 뺀 텍스트로 시도해주세요.';
+  }
+}
+
+// The user stopped the job (or the request), so there is nothing to fix.
+export class CancelledError extends ApiRequestError {
+  get guidance(): string {
+    return '작업이 취소되었습니다. 다시 시작하려면 URL 또는 텍스트를 다시 제출해주세요.';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export class NetworkError extends ApiRequestError {
+  get guidance(): string {
+    return '서버에 연결하지 못했습니다. 인터넷 연결을 확인해주세요.';
+  }
+}
+
+// Turns the proxy's `{ code, message, retryable, stage, ... }` envelope into the matching error class.
+export const createApiError = (envelope: ApiErrorEnvelope, status?: number): ApiRequestError => {
+  const args = [
+    envelope.message, envelope.code, envelope.retryable, envelope.stage, status, envelope.classification, envelope.retries,
+    envelope.retryAfter,
+  ] as const;
+  switch (envelope.code) {
+    case 'INVALID_REQUEST':
+    case 'URL_NOT_ALLOWED':
+    case 'METHOD_NOT_ALLOWED':
+    case 'NOT_FOUND':
+      return new InvalidRequestError(...args);
+    case 'CANCELLED':
+      return new CancelledError(...args);
+    case 'UNAUTHORIZED':
+      return new UnauthorizedError(...args);
+    case 'QUOTA_EXCEEDED':
+      return new QuotaExceededError(...args);
+    case 'PAYLOAD_TOO_LARGE':
+      return new ContentTooLargeError(...args);
+    case 'RATE_LIMITED':
+      return new RateLimitError(...args);
+    case 'UPSTREAM_TIMEOUT':
+      return new UpstreamTimeoutError(...args);
+    case 'SAFETY_BLOCKED':
+      return new ContentBlockedError(...args);
+    default:
+      return new UpstreamError(...args);
+  }
+};
+
+// Reads an error response body, which may be an envelope or (from older deployments or gateways) something else.
+export const errorFromResponse = async (response: Response, stage?: ProxyAction): Promise<ApiRequestError> => {
+  const data = await response.json().catch(() => null);
+  const envelope = data?.error;
+  const retryAfterHeader = Number(response.headers.get('Retry-After'));
+  const retryAfter = retryAfterHeader > 0 ? retryAfterHeader : undefined;
+  if (envelope && typeof envelope === 'object' && typeof envelope.code === 'string') {
+    return createApiError({ retryAfter, ...(envelope as ApiErrorEnvelope) }, response.status);
+  }
+  const message = typeof envelope === 'string' ? envelope : `서버 에러: ${response.status}`;
+  const code: ApiErrorCode = response.status === 429 ? 'RATE_LIMITED' : response.status === 504 ? 'UPSTREAM_TIMEOUT' : 'UPSTREAM_ERROR';
+  return createApiError({ code, message, retryable: response.status >= 500 || response.status === 429, stage, retryAfter }, response.status);
+};
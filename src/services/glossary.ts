@@ -0,0 +1,203 @@
+import { GlossaryEntry, TARGET_LANGUAGES, TargetLanguage } from '../types';
+
+// The user's glossary, kept in localStorage and sent along with every job.
+// Import and export use CSV (one entry per row) and TBX-Basic, the usual terminology exchange format.
+const GLOSSARY_KEY = 'lingua-canvas-glossary';
+
+const CSV_COLUMNS = ['source', 'target', 'case_sensitive', 'do_not_translate', 'target_language'] as const;
+
+export const createEntryId = (): string => crypto.randomUUID();
+
+const isTargetLanguage = (value: unknown): value is TargetLanguage => TARGET_LANGUAGES.includes(value as TargetLanguage);
+
+// Drops malformed entries instead of failing, so one bad row does not lose the rest of the glossary.
+const sanitize = (entries: unknown[]): GlossaryEntry[] =>
+  entries.flatMap(item => {
+    const entry = item as Partial<GlossaryEntry> | null;
+    const source = typeof entry?.source === 'string' ? entry.source.trim() : '';
+    const target = typeof entry?.target === 'string' ? entry.target.trim() : '';
+    const doNotTranslate = entry?.doNotTranslate === true;
+    if (!source || (!target && !doNotTranslate)) return [];
+    return [{
+      id: typeof entry?.id === 'string' && entry.id ? entry.id : createEntryId(),
+      source,
+      target,
+      caseSensitive: entry?.caseSensitive === true,
+      doNotTranslate,
+      ...(isTargetLanguage(entry?.targetLanguage) && { targetLanguage: entry.targetLanguage }),
+    }];
+  });
+
+export const loadGlossary = (): GlossaryEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GLOSSARY_KEY) ?? '[]');
+    return Array.isArray(stored) ? sanitize(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlossary = (glossary: GlossaryEntry[]) => {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(glossary));
+};
+
+// Imported entries replace existing ones with the same source term and target language; the rest are appended.
+export const mergeGlossary = (glossary: GlossaryEntry[], imported: GlossaryEntry[]): GlossaryEntry[] => {
+  const keyOf = (entry: GlossaryEntry) => `${entry.caseSensitive ? entry.source : entry.source.toLowerCase()}\u0000${entry.targetLanguage ?? ''}`;
+  const importedKeys = new Set(imported.map(keyOf));
+  return [...glossary.filter(entry => !importedKeys.has(keyOf(entry))), ...imported];
+};
+
+// --- CSV ---
+
+const parseBoolean = (value: string | undefined): boolean => /^(true|1|yes|y)$/i.test(value?.trim() ?? '');
+
+// RFC 4180 fields: quoted fields may contain commas, line breaks and doubled quotes.
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Reads a CSV glossary. A header row naming the columns (see CSV_COLUMNS) is optional;
+ * without one the columns are taken in that order, so a plain "source,target" file works too.
+ */
+export const parseGlossaryCsv = (text: string): GlossaryEntry[] => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('source');
+  const columns = hasHeader ? header : [...CSV_COLUMNS];
+  const column = (cells: string[], name: typeof CSV_COLUMNS[number]) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? cells[index] : undefined;
+  };
+  return sanitize((hasHeader ? rows.slice(1) : rows).map(cells => ({
+    source: column(cells, 'source'),
+    target: column(cells, 'target') ?? '',
+    caseSensitive: parseBoolean(column(cells, 'case_sensitive')),
+    doNotTranslate: parseBoolean(column(cells, 'do_not_translate')),
+    targetLanguage: column(cells, 'target_language')?.trim().toLowerCase() as TargetLanguage | undefined,
+  })));
+};
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatGlossaryCsv = (glossary: GlossaryEntry[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...glossary.map(entry => [
+      entry.source,
+      entry.target,
+      String(entry.caseSensitive),
+      String(entry.doNotTranslate),
+      entry.targetLanguage ?? '',
+    ].map(csvField).join(',')),
+  ].join('\r\n') + '\r\n';
+
+// --- TBX ---
+
+// Flags with no TBX-Basic equivalent travel as <descrip> elements of the concept.
+const CASE_SENSITIVE_DESCRIP = 'caseSensitive';
+const DO_NOT_TRANSLATE_DESCRIP = 'doNotTranslate';
+
+// Source terms come from pages in any language, so their langSet is marked as undetermined.
+const SOURCE_LANG = 'und';
+// Target langSet of entries that apply to every target language ("multiple languages").
+const ANY_TARGET_LANG = 'mul';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Reads a TBX file. In each concept (termEntry) the first langSet is the source term and the second the target;
+ * a concept with a single langSet is kept untranslated. A target langSet in a supported language sets the entry's target language.
+ */
+export const parseGlossaryTbx = (xml: string): GlossaryEntry[] => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('TBX 파일을 읽을 수 없습니다. XML 형식을 확인해주세요.');
+  }
+  const conceptTags = ['termEntry', 'conceptEntry'];
+  const concepts = conceptTags.flatMap(tag => Array.from(document.getElementsByTagName(tag)));
+  return sanitize(concepts.map(concept => {
+    const langSets = Array.from(concept.getElementsByTagName('langSet'));
+    const termOf = (langSet: Element | undefined) => langSet?.getElementsByTagName('term')[0]?.textContent ?? '';
+    const descrip = (type: string) =>
+      Array.from(concept.getElementsByTagName('descrip')).find(element => element.getAttribute('type') === type)?.textContent;
+    const targetLang = langSets[1]?.getAttribute('xml:lang')?.toLowerCase().split('-')[0];
+    return {
+      source: termOf(langSets[0]),
+      target: termOf(langSets[1]),
+      caseSensitive: parseBoolean(descrip(CASE_SENSITIVE_DESCRIP) ?? undefined),
+      doNotTranslate: langSets.length === 1 || parseBoolean(descrip(DO_NOT_TRANSLATE_DESCRIP) ?? undefined),
+      targetLanguage: targetLang as TargetLanguage | undefined,
+    };
+  }));
+};
+
+export const formatGlossaryTbx = (glossary: GlossaryEntry[]): string => {
+  const entries = glossary.map((entry, index) => {
+    const targetLang = entry.targetLanguage ?? ANY_TARGET_LANG;
+    const langSets = [`      <langSet xml:lang="${SOURCE_LANG}"><tig><term>${escapeXml(entry.source)}</term></tig></langSet>`];
+    if (!entry.doNotTranslate) {
+      langSets.push(`      <langSet xml:lang="${targetLang}"><tig><term>${escapeXml(entry.target)}</term></tig></langSet>`);
+    }
+    return `    <termEntry id="c${index + 1}">
+      <descrip type="${CASE_SENSITIVE_DESCRIP}">${entry.caseSensitive}</descrip>
+      <descrip type="${DO_NOT_TRANSLATE_DESCRIP}">${entry.doNotTranslate}</descrip>
+${langSets.join('\n')}
+    </termEntry>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX-Basic" xml:lang="en">
+  <martifHeader>
+    <fileDesc><sourceDesc><p>LinguaScope glossary</p></sourceDesc></fileDesc>
+  </martifHeader>
+  <text>
+    <body>
+${entries.join('\n')}
+    </body>
+  </text>
+</martif>
+`;
+};
+
+// Picks the parser from the file name; anything that is not CSV is read as TBX.
+export const importGlossaryFile = async (file: File): Promise<GlossaryEntry[]> => {
+  const text = await file.text();
+  return /\.csv$/i.test(file.name) ? parseGlossaryCsv(text) : parseGlossaryTbx(text);
+};
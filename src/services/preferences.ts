@@ -0,0 +1,68 @@
+import {
+  AUDIENCES, DEFAULT_TARGET_LANGUAGE, FIDELITIES, FORMALITIES, KOREAN_REGISTERS, PROTECTED_CATEGORIES, ProtectionSettings, TARGET_LANGUAGES,
+  TargetLanguage, TranslationStyle,
+} from '../types';
+import { compileProtectionPattern, DEFAULT_PROTECTION } from '../core/protection';
+
+// Settings remembered across visits, kept in localStorage.
+const TARGET_LANGUAGE_KEY = 'lingua-canvas-target-language';
+
+export const loadTargetLanguage = (): TargetLanguage => {
+  const stored = localStorage.getItem(TARGET_LANGUAGE_KEY);
+  return TARGET_LANGUAGES.includes(stored as TargetLanguage) ? stored as TargetLanguage : DEFAULT_TARGET_LANGUAGE;
+};
+
+export const saveTargetLanguage = (language: TargetLanguage) => {
+  localStorage.setItem(TARGET_LANGUAGE_KEY, language);
+};
+
+const PROTECTION_KEY = 'lingua-canvas-protection';
+
+// Unknown categories and patterns that no longer compile are dropped rather than failing every job.
+export const loadProtection = (): ProtectionSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROTECTION_KEY) ?? 'null') as Partial<ProtectionSettings> | null;
+    if (!stored || !Array.isArray(stored.categories) || !Array.isArray(stored.patterns)) return DEFAULT_PROTECTION;
+    return {
+      categories: PROTECTED_CATEGORIES.filter(category => stored.categories?.includes(category)),
+      patterns: stored.patterns.filter(pattern => {
+        if (typeof pattern !== 'string') return false;
+        try {
+          compileProtectionPattern(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }),
+    };
+  } catch {
+    return DEFAULT_PROTECTION;
+  }
+};
+
+export const saveProtection = (settings: ProtectionSettings) => {
+  localStorage.setItem(PROTECTION_KEY, JSON.stringify(settings));
+};
+
+const STYLE_KEY = 'lingua-canvas-translation-style';
+
+const pick = <T extends string>(value: unknown, values: readonly T[]): T | undefined =>
+  values.includes(value as T) ? value as T : undefined;
+
+export const loadTranslationStyle = (): TranslationStyle => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STYLE_KEY) ?? '{}') as Record<string, unknown> | null;
+    return {
+      register: pick(stored?.register, KOREAN_REGISTERS),
+      formality: pick(stored?.formality, FORMALITIES),
+      audience: pick(stored?.audience, AUDIENCES),
+      fidelity: pick(stored?.fidelity, FIDELITIES),
+    };
+  } catch {
+    return {};
+  }
+};
+
+export const saveTranslationStyle = (style: TranslationStyle) => {
+  localStorage.setItem(STYLE_KEY, JSON.stringify(style));
+};
@@ -0,0 +1,55 @@
+import { JobResult, ProxyAction, ProxyResponseMeta, StageTimings } from '../types';
+
+// Durations of past stages, kept in localStorage to estimate how long the current job will take.
+const HISTORY_KEY = 'lingua-canvas-stage-history';
+// Samples kept per stage; older ones are dropped first.
+const MAX_SAMPLES = 20;
+
+interface StageSample {
+  contentLength: number;
+  durationMs: number;
+}
+
+type StageHistory = Partial<Record<ProxyAction, StageSample[]>>;
+
+// Stages whose duration grows with the document; the others take about as long whatever the input.
+const LENGTH_DEPENDENT_STAGES = new Set<ProxyAction>(['performAnalysis', 'performTranslation']);
+
+const loadHistory = (): StageHistory => {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Records the stages of a finished job. Cached and resumed stages are skipped: they say nothing about how long real work takes.
+export const recordStageTimings = (result: JobResult, stageMeta: Partial<Record<ProxyAction, ProxyResponseMeta>>) => {
+  const timings = result.processingTime.stages;
+  if (!timings) return;
+  const history = loadHistory();
+  for (const [action, timing] of Object.entries(timings) as [ProxyAction, StageTimings[ProxyAction]][]) {
+    if (!timing?.endedAt || stageMeta[action]?.cached || stageMeta[action]?.resumed) continue;
+    const samples = history[action] ?? [];
+    samples.push({ contentLength: result.originalContent.length, durationMs: timing.endedAt - timing.startedAt });
+    history[action] = samples.slice(-MAX_SAMPLES);
+  }
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+};
+
+// Expected duration of one stage, or undefined when there is no history for it yet.
+export const estimateStageMs = (action: ProxyAction, contentLength: number | undefined): number | undefined => {
+  const samples = loadHistory()[action];
+  if (!samples?.length) return undefined;
+  if (!LENGTH_DEPENDENT_STAGES.has(action) || !contentLength) {
+    return median(samples.map(sample => sample.durationMs));
+  }
+  const msPerChar = median(samples.map(sample => sample.durationMs / Math.max(1, sample.contentLength)));
+  return msPerChar * contentLength;
+};
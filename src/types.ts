@@ -1,11 +1,172 @@
 
 export type AiModel = 'gemini-2.5-flash' | 'gemini-2.5-flash-lite';
 
+export const AI_MODELS: readonly AiModel[] = ['gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+
+// Languages the output can be translated into, as ISO 639-1 codes (the same codes language detection returns)
+export type TargetLanguage = 'ko' | 'en' | 'ja' | 'zh' | 'es' | 'fr' | 'de';
+
+export const TARGET_LANGUAGES: readonly TargetLanguage[] = ['ko', 'en', 'ja', 'zh', 'es', 'fr', 'de'];
+
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguage = 'ko';
+
+// Names shown in the language picker, each in its own language
+export const TargetLanguageLabels: Record<TargetLanguage, string> = {
+  ko: '한국어',
+  en: 'English',
+  ja: '日本語',
+  zh: '中文(简体)',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+};
+
+// How translations should read. Unset fields are left to the model (see src/core/style.ts)
+export interface TranslationStyle {
+  // Korean speech level: 합쇼체, 해요체 or 한다체. Only applies to translations into Korean.
+  register?: KoreanRegister;
+  formality?: Formality;
+  audience?: Audience;
+  // Stay close to the source wording, or favour idiomatic phrasing
+  fidelity?: Fidelity;
+}
+
+export type KoreanRegister = 'hapsyo' | 'haeyo' | 'handa';
+export type Formality = 'formal' | 'neutral' | 'casual';
+export type Audience = 'general' | 'expert' | 'executive' | 'beginner';
+export type Fidelity = 'literal' | 'natural';
+
+export const KOREAN_REGISTERS: readonly KoreanRegister[] = ['hapsyo', 'haeyo', 'handa'];
+export const FORMALITIES: readonly Formality[] = ['formal', 'neutral', 'casual'];
+export const AUDIENCES: readonly Audience[] = ['general', 'expert', 'executive', 'beginner'];
+export const FIDELITIES: readonly Fidelity[] = ['literal', 'natural'];
+
+export const KoreanRegisterLabels: Record<KoreanRegister, string> = {
+  hapsyo: '합쇼체 (-습니다)',
+  haeyo: '해요체 (-어요)',
+  handa: '한다체 (-다)',
+};
+
+export const FormalityLabels: Record<Formality, string> = {
+  formal: '격식',
+  neutral: '보통',
+  casual: '친근',
+};
+
+export const AudienceLabels: Record<Audience, string> = {
+  general: '일반 독자',
+  expert: '전문가',
+  executive: '경영진',
+  beginner: '입문자',
+};
+
+export const FidelityLabels: Record<Fidelity, string> = {
+  literal: '직역',
+  natural: '의역',
+};
+
+// Actions accepted by /api/proxy
+export type ProxyAction =
+  | 'fetchUrl'
+  | 'detectLanguage'
+  | 'performAnalysis'
+  | 'translateAnalysis'
+  | 'performTranslation'
+  | 'retranslateBlock'
+  | 'enhanceReadability';
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'      // 400
+  | 'URL_NOT_ALLOWED'      // 400
+  | 'UNAUTHORIZED'         // 401
+  | 'NOT_FOUND'            // 404
+  | 'METHOD_NOT_ALLOWED'   // 405
+  | 'CANCELLED'            // 409
+  | 'PAYLOAD_TOO_LARGE'    // 413
+  | 'SAFETY_BLOCKED'       // 422
+  | 'RATE_LIMITED'         // 429
+  | 'QUOTA_EXCEEDED'       // 429, this deployment's own per-client limits
+  | 'INTERNAL_ERROR'       // 500
+  | 'UPSTREAM_ERROR'       // 502
+  | 'UNSUPPORTED_CONTENT'  // 502
+  | 'UPSTREAM_TIMEOUT';    // 504
+
+// How the proxy classified a failed LLM call (see src/core/retry.ts)
+export type LlmErrorKind =
+  | 'RATE_LIMITED'
+  | 'OVERLOADED'
+  | 'TIMEOUT'
+  | 'INVALID_REQUEST'
+  | 'SAFETY_BLOCKED'
+  | 'MALFORMED_OUTPUT'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+// Token counts reported by the model, summed over one or more calls
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  thinkingTokens: number;
+}
+
+// Token usage with its cost estimated from the server's price table (see src/core/usage.ts)
+export interface UsageSummary extends TokenUsage {
+  estimatedCostUsd: number;
+}
+
+// Metadata returned next to every /api/proxy result as `{ result, meta }`
+export interface ProxyResponseMeta {
+  cached: boolean;
+  // LLM calls that were retried while producing this result, and why the last one failed
+  retries: number;
+  lastErrorKind?: LlmErrorKind;
+  // Tokens spent on this result, failed attempts included. Absent for cached results.
+  usage?: UsageSummary;
+  // Taken over from an earlier failed job (see JobArtifacts) instead of being run again
+  resumed?: boolean;
+}
+
+// Error body returned by /api/proxy as `{ error: ApiErrorEnvelope }`
+export interface ApiErrorEnvelope {
+  code: ApiErrorCode;
+  message: string;
+  retryable: boolean;
+  stage?: ProxyAction;
+  classification?: LlmErrorKind;
+  retries?: number;
+  // Seconds until the request may be repeated, mirrored in the Retry-After header.
+  retryAfter?: number;
+}
+
+// When a pipeline stage ran, in epoch ms. `endedAt` is missing while the stage is still running.
+export interface StageTiming {
+  startedAt: number;
+  endedAt?: number;
+}
+
+export type StageTimings = Partial<Record<ProxyAction, StageTiming>>;
+
 export interface JobResult {
   title: string;
   originalUrl: string;
+  // Language of the summary and the translation. Content already in this language is not translated.
+  targetLanguage: TargetLanguage;
+  sourceLanguage: LanguageDetection;
+  // Style the summary and the translation were asked for; absent when it was left to the model.
+  style?: TranslationStyle;
+  // Glossary terms the translations did not follow; absent when no glossary entry applied.
+  glossaryViolations?: GlossaryViolation[];
+  // Where the translation's HTML structure still differs from the source; absent when it matches.
+  structureIssues?: StructureIssue[];
   processingTime: {
     total: number;      // seconds
+    // Start and end of each stage that ran, cached ones included
+    stages?: StageTimings;
+  };
+  // Per-stage token usage and estimated cost; stages served from the cache are left out.
+  usage?: {
+    stages: Partial<Record<ProxyAction, UsageSummary>>;
+    total: UsageSummary;
   };
   originalContent: string;
   outputs: {
@@ -26,6 +187,14 @@ export interface LocalHistoryItem {
   result: JobResult;
 }
 
+// Raw page returned by the proxy's server-side `fetchUrl` action
+export interface FetchedPage {
+  html: string;
+  finalUrl: string;
+  contentType: string;
+  status: number;
+}
+
 // Type for the result of the first AI analysis step (without translation)
 export interface AnalysisOutput {
   title: string;
@@ -40,7 +209,9 @@ export enum UiState {
   DEFAULT = 'DEFAULT',
   PROCESSING = 'PROCESSING',
   COMPLETE = 'COMPLETE',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  // The server refused the job because a per-client request or daily limit was reached.
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED'
 }
 
 export enum JobStatus {
@@ -51,8 +222,145 @@ export enum JobStatus {
   TRANSLATING = 'TRANSLATING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
+// What an asynchronous job (POST /api/jobs) works on: a page URL or pasted text.
+export type JobInput = ({ url: string; text?: never } | { text: string; url?: never }) & {
+  model: AiModel;
+  targetLanguage: TargetLanguage;
+  glossary?: GlossaryEntry[];
+  // What is kept out of the model's hands; the server's default (every category) when unset
+  protection?: ProtectionSettings;
+  style?: TranslationStyle;
+};
+
+// A user-managed terminology rule, applied to every translation into its target language
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  // Ignored for do-not-translate entries, which keep the source term as-is.
+  target: string;
+  caseSensitive: boolean;
+  doNotTranslate: boolean;
+  // Applies to every target language when unset
+  targetLanguage?: TargetLanguage;
+}
+
+// A glossary term the output did not render as the glossary asks (see src/core/glossary.ts)
+export interface GlossaryViolation {
+  source: string;
+  // The target term, or the source term itself for do-not-translate entries
+  expected: string;
+  stage: 'translateAnalysis' | 'performTranslation';
+  // Occurrences of the source term in the original and of the expected term in the output
+  sourceCount: number;
+  outputCount: number;
+}
+
+// Kinds of content replaced by placeholders before translation and put back afterwards (see src/core/protection.ts)
+export type ProtectedCategory = 'codeBlocks' | 'inlineCode' | 'urls' | 'emails' | 'numbers';
+
+export const PROTECTED_CATEGORIES: readonly ProtectedCategory[] = ['codeBlocks', 'inlineCode', 'urls', 'emails', 'numbers'];
+
+export const ProtectedCategoryLabels: Record<ProtectedCategory, string> = {
+  codeBlocks: '코드 블록 (<pre>)',
+  inlineCode: '인라인 코드 (<code>)',
+  urls: 'URL',
+  emails: '이메일 주소',
+  numbers: '숫자와 단위',
+};
+
+export interface ProtectionSettings {
+  categories: ProtectedCategory[];
+  // User-defined regular expressions (JavaScript syntax, no delimiters); text they match is protected too
+  patterns: string[];
+}
+
+// A structural difference between the source HTML and its translation (see src/core/structure.ts)
+export interface StructureIssue {
+  // 'blocks': blocks merged, split or lost. 'tags': inline elements. 'links': href values. 'code': <pre>/<code> contents.
+  kind: 'blocks' | 'tags' | 'links' | 'code';
+  // Index of the first source block involved, counting the non-empty blocks from 0
+  block: number;
+  // Start of the block's text, to find it in the document
+  excerpt: string;
+  // Element names, hrefs or code the translation lacks, and those it has that the source does not
+  missing: string[];
+  extra: string[];
+}
+
+// A possible language of the content, as an ISO 639-1 code, with a confidence from 0 to 1
+export interface LanguageCandidate {
+  language: string;
+  confidence: number;
+}
+
+// How the language of the content was determined (see src/core/languageDetection.ts)
+export interface LanguageDetection {
+  // Predominant language, or 'und' when the content has no text
+  language: string;
+  confidence: number;
+  // Most likely first
+  candidates: LanguageCandidate[];
+  // Set when more than one language covers a sizeable share of the text; largest share first
+  mixed?: { language: string; share: number }[];
+  // 'local': the offline detector. 'llm': the model, asked because the detector was unsure. 'user': a manual override.
+  source: 'local' | 'llm' | 'user';
 }
 
+// Outputs of the pipeline stages a job has finished. A failed job can be resumed by sending these back
+// with a new job, which then runs only the stages that are still missing.
+export interface JobArtifacts {
+  // Main content HTML extracted from the page (URL jobs only)
+  content?: string;
+  language?: LanguageDetection;
+  analysis?: AnalysisOutput;
+  translatedAnalysis?: AnalysisOutput;
+  translation?: string;
+}
+
+// A job as returned by /api/jobs and /api/jobs/:id
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  input: JobInput;
+  createdAt: number;  // epoch ms
+  updatedAt: number;  // epoch ms
+  // Response metadata (cache use, retries) of each pipeline stage that has run.
+  stageMeta: Partial<Record<ProxyAction, ProxyResponseMeta>>;
+  stageTimings: StageTimings;
+  // Length of the content HTML once it is known (after extraction for URL jobs), for estimating the remaining time.
+  contentLength?: number;
+  artifacts: JobArtifacts;
+  // While TRANSLATING: the untranslated analysis plus the translation received so far.
+  partialResult?: JobResult;
+  result?: JobResult;
+  error?: ApiErrorEnvelope;
+}
+
+// Pipeline stage names for each /api/proxy action
+export const ProxyActionLabels: Record<ProxyAction, string> = {
+  fetchUrl: '본문 추출',
+  detectLanguage: '언어 감지',
+  performAnalysis: '요약/키워드 추출',
+  translateAnalysis: '요약 번역',
+  performTranslation: '전체 번역',
+  retranslateBlock: '블록 다시 번역',
+  enhanceReadability: '가독성 향상',
+};
+
+export const LlmErrorKindLabels: Record<LlmErrorKind, string> = {
+  RATE_LIMITED: '요청 한도 초과',
+  OVERLOADED: '모델 과부하',
+  TIMEOUT: '응답 시간 초과',
+  INVALID_REQUEST: '잘못된 요청',
+  SAFETY_BLOCKED: '안전 정책 차단',
+  MALFORMED_OUTPUT: '잘못된 응답 형식',
+  CANCELLED: '취소됨',
+  UNKNOWN: '알 수 없는 오류',
+};
+
 export const JobStatusMessages: Record<JobStatus, string> = {
   [JobStatus.QUEUED]: '작업 대기 중...',
   [JobStatus.EXTRACTING]: '본문 추출 중...',
@@ -61,4 +369,5 @@ export const JobStatusMessages: Record<JobStatus, string> = {
   [JobStatus.TRANSLATING]: '전체 번역 중...',
   [JobStatus.COMPLETED]: '분석 완료!',
   [JobStatus.FAILED]: '작업 실패',
+  [JobStatus.CANCELLED]: '작업 취소됨',
 };
@@ -1,6 +1,11 @@
 
+import { TargetLanguage } from './src/types';
+
 export type AiModel = 'gemini-2.5-flash' | 'gemini-2.5-flash-lite';
 
+// This app has no language picker; it always translates into Korean.
+export const TARGET_LANGUAGE: TargetLanguage = 'ko';
+
 export interface JobResult {
   title: string;
   originalUrl: string;
@@ -26,6 +31,14 @@ export interface LocalHistoryItem {
   result: JobResult;
 }
 
+// Raw page returned by the proxy's server-side `fetchUrl` action
+export interface FetchedPage {
+  html: string;
+  finalUrl: string;
+  contentType: string;
+  status: number;
+}
+
 // Type for the result of the first AI analysis step (without translation)
 export interface AnalysisOutput {
   title: string;
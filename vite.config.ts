@@ -1,7 +1,19 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', '')
+  return {
+    plugins: [react()],
+    server: {
+      // Forward API calls to the local server (`npm run server`) so `npm run dev` works without extra setup.
+      proxy: {
+        '/api': {
+          target: env.API_PROXY_TARGET || `http://localhost:${env.PORT || 3001}`,
+          changeOrigin: true,
+        },
+      },
+    },
+  }
 })